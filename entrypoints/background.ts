@@ -1,5 +1,311 @@
-import logger from '../utils/logger';
+import logger, { setLogLevel } from '../utils/logger';
+import { activateProfile, getAccounts, getActiveAccount, getActiveProfile, getSettings, setActiveAccount, watchSettings } from '../utils/storage';
+import { ALARM_PREFIX, alarmToTimerName, createAlarmTimers, executeInTab, RunController } from '../utils/runController';
+import type { CandidateUser } from '../utils/detector';
+import { countByBadge } from '../utils/badges';
+import { createProfileTabCheck, runFollowBackAudit } from '../utils/audit';
+import { sessionUrl } from '../utils/route';
+import { clock } from '../utils/clock';
+import { isWithinSchedule, nextScheduleChange } from '../utils/schedule';
+import { EventLog, setEventSink } from '../utils/eventLog';
+import { BACKGROUND_SCHEMA, requestTab, serve, type AuditStatus, type BackgroundProtocol, type Handlers } from '../utils/protocol';
+import { ToolbarBadges } from '../utils/toolbar';
+import { runMigrations } from '../utils/migrations';
+import { noticeText, runNotices, showNotice, type RunNotice, type RunSnapshot } from '../utils/notifications';
+
+const SCHEDULE_ALARM = `${ALARM_PREFIX}schedule`;
+
+async function getActiveTabId(): Promise<number | null> {
+  const tabs = await browser.tabs.query({ active: true, currentWindow: true });
+  return tabs[0]?.id ?? null;
+}
+
+async function getCandidates(tabId: number): Promise<CandidateUser[]> {
+  try {
+    return await requestTab(tabId, 'GET_CANDIDATES');
+  } catch (e) {
+    // Not an X tab, or the content script is not loaded yet
+    return [];
+  }
+}
+
+// The X tab a scheduled run starts on: the focused one if it is on X
+async function findXTab(exclude: number | null): Promise<number | null> {
+  const tabs = (await browser.tabs.query({ url: 'https://x.com/*' })).filter(t => t.id !== exclude);
+  const tab = tabs.find(t => t.active) || tabs[0];
+  return tab?.id ?? null;
+}
+
+async function getSessionUrl(tabId: number): Promise<string | null> {
+  try {
+    const { url } = await browser.tabs.get(tabId);
+    return url ? sessionUrl(url) : null;
+  } catch (e) {
+    return null;
+  }
+}
 
 export default defineBackground(() => {
   logger.info('Hello background!', { id: browser.runtime.id });
+
+  // Owns the activity log; the controller records into it directly
+  const eventLog = new EventLog();
+  setEventSink(event => eventLog.record(event));
+
+  const toolbar = new ToolbarBadges();
+  let lastRun: RunSnapshot | null = null;
+
+  function notify(notice: RunNotice, run: RunSnapshot) {
+    const until = notice === 'daily_limit' ? controller.getDailyLimitInfo().resetAt : controller.getRateLimitInfo().pauseUntil;
+    showNotice(notice, noticeText(notice, run, until));
+  }
+
+  // Badge and notifications follow the run's state
+  function onRunChange() {
+    const status = controller.getStatus();
+    toolbar.setRun(controller.getRunTabId(), status);
+    for (const notice of runNotices(lastRun, status)) notify(notice, status);
+    lastRun = status;
+  }
+
+  const controller = new RunController({
+    executor: executeInTab,
+    timers: createAlarmTimers(),
+    onChange: onRunChange,
+  });
+  // Listeners below are registered synchronously (MV3) and wait for the restore
+  const ready = Promise.all([controller.init(), eventLog.init(), applyLogLevel()]).then(async () => {
+    // The run's tab may have been closed while the worker was not running
+    const tabId = controller.getRunTabId();
+    if (tabId === null) return;
+    try {
+      await browser.tabs.get(tabId);
+    } catch (e) {
+      await controller.handleTabClosed(tabId);
+    }
+  });
+
+  // The account logged in on each X tab, as its content script reported it
+  const tabAccounts = new Map<number, string>();
+  let accountSwitch: Promise<void> = Promise.resolve();
+
+  /**
+   * Makes `handle` the active account: the current run is saved paused for
+   * its account and the new account's run, limits and history take over.
+   */
+  function switchAccount(handle: string): Promise<void> {
+    const next = accountSwitch.then(async () => {
+      const active = await getActiveAccount();
+      if (handle === active) return;
+      if (active === null) {
+        // The first account takes over the data in use, run included
+        await setActiveAccount(handle);
+        return;
+      }
+      await controller.suspend();
+      await setActiveAccount(handle);
+      // Each account comes back to the profile it used last
+      const profile = await getActiveProfile();
+      if (profile) await activateProfile(profile.id);
+      await controller.init();
+      lastRun = null;
+      onRunChange();
+      logger.info(`[xfollow] Switched to account ${handle}`);
+    });
+    accountSwitch = next.catch(() => { });
+    return next;
+  }
+
+  // A run always follows as the account logged in on its tab
+  async function useTabAccount(tabId: number) {
+    const handle = tabAccounts.get(tabId);
+    if (handle) await switchAccount(handle);
+  }
+
+  browser.runtime.onInstalled.addListener(async ({ reason }) => {
+    if (reason === 'install' || reason === 'update') await runMigrations();
+  });
+
+  /**
+   * Applies the schedule to the current run and sets the alarm for its next
+   * change. When a window opens with no run, one is started on an X tab.
+   */
+  async function applySchedule(windowOpened = false) {
+    const { schedule, timeZone } = await getSettings();
+    const now = clock.now();
+    if (windowOpened && !controller.hasRun() && isWithinSchedule(now, schedule, timeZone)) {
+      const tabId = await findXTab(auditTabId());
+      if (tabId) {
+        await useTabAccount(tabId);
+        await controller.start(tabId, await getCandidates(tabId), { sessionUrl: await getSessionUrl(tabId) });
+        logger.info(`[xfollow] Schedule started a run on tab ${tabId}`);
+      }
+    } else {
+      await controller.applySchedule();
+    }
+
+    const next = nextScheduleChange(now, schedule, timeZone);
+    if (next) {
+      browser.alarms.create(SCHEDULE_ALARM, { when: next });
+    } else {
+      browser.alarms.clear(SCHEDULE_ALARM);
+    }
+  }
+
+  async function applyLogLevel() {
+    const { logLevel } = await getSettings();
+    setLogLevel(logLevel);
+    eventLog.setLevel(logLevel);
+  }
+
+  ready.then(() => applySchedule());
+  watchSettings(async () => {
+    await ready;
+    await applyLogLevel();
+    await applySchedule();
+  });
+
+  browser.alarms.onAlarm.addListener(async (alarm) => {
+    if (alarm.name === SCHEDULE_ALARM) {
+      await ready;
+      await applySchedule(true);
+      return;
+    }
+    const name = alarmToTimerName(alarm.name);
+    if (!name) return;
+    await ready;
+    await controller.handleTimer(name);
+  });
+
+  browser.tabs.onRemoved.addListener(async (tabId) => {
+    toolbar.removeTab(tabId);
+    tabAccounts.delete(tabId);
+    await ready;
+    await controller.handleTabClosed(tabId);
+  });
+
+  // A reload starts detection over
+  browser.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.status === 'loading') toolbar.resetTab(tabId);
+  });
+
+  const audit: AuditStatus = { running: false, checked: 0, total: 0 };
+  let auditProfiles: ReturnType<typeof createProfileTabCheck> | null = null;
+
+  // The audit's background tab loads X like any other; it is not a page the
+  // user is on, so it neither feeds a run nor reports the account
+  function auditTabId(): number | null {
+    return auditProfiles?.tabId() ?? null;
+  }
+
+  async function startAudit() {
+    if (audit.running) return;
+    Object.assign(audit, { running: true, checked: 0, total: 0 });
+    const profiles = createProfileTabCheck();
+    auditProfiles = profiles;
+    try {
+      await runFollowBackAudit(profiles.check, {
+        onProgress: (checked, total) => Object.assign(audit, { checked, total }),
+      });
+    } catch (error) {
+      logger.error('[xfollow] Follow-back audit failed', error);
+    } finally {
+      await profiles.close();
+      auditProfiles = null;
+      audit.running = false;
+    }
+  }
+
+  // Popup, panel and content script requests; `sender.tab` is set for the
+  // latter two
+  const handlers: Handlers<BackgroundProtocol> = {
+    GET_STATUS: async (_data, sender) => {
+      const tabId = sender.tab?.id ?? (await getActiveTabId());
+      const candidates = tabId ? await getCandidates(tabId) : [];
+      return { ...controller.getStatus(), detectedCount: candidates.length, detectedByBadge: countByBadge(candidates) };
+    },
+    GET_SKIPPED: async () => controller.getSkipped(),
+    LIST_CANDIDATES: async () => {
+      const tabId = await getActiveTabId();
+      return tabId ? getCandidates(tabId) : [];
+    },
+    GET_RATE_LIMIT_INFO: async () => controller.getRateLimitInfo(),
+    GET_DAILY_LIMIT_INFO: async () => controller.getDailyLimitInfo(),
+    RESET_DAILY_STATS: async () => {
+      await controller.resetDailyStats();
+      return { status: 'ok' };
+    },
+    // Sent by the popup (active tab) or by the in-page panel (its own tab)
+    START_FOLLOW: async (data, sender) => {
+      const tabId = sender.tab?.id ?? (await getActiveTabId());
+      if (!tabId) return { status: 'no_tab' };
+      await useTabAccount(tabId);
+      await controller.start(tabId, await getCandidates(tabId), {
+        selection: data?.handles,
+        sessionUrl: await getSessionUrl(tabId),
+      });
+      return { status: 'started' };
+    },
+    PAUSE_FOLLOW: async () => {
+      controller.pause();
+      return { status: 'paused' };
+    },
+    RESUME_FOLLOW: async (_data, sender) => {
+      controller.resume(sender.tab?.id ?? (await getActiveTabId()));
+      return { status: 'resumed' };
+    },
+    GET_BACKLOG: async () => controller.getBacklog(),
+    STOP_FOLLOW: async () => {
+      await controller.stop();
+      return { status: 'stopped' };
+    },
+    RUN_SELECTOR_SELF_TEST: async () => {
+      const tabId = await getActiveTabId();
+      return tabId ? requestTab(tabId, 'RUN_SELECTOR_SELF_TEST') : [];
+    },
+    RUN_FOLLOW_BACK_AUDIT: async () => {
+      // Runs for minutes; the popup polls GET_AUDIT_STATUS
+      startAudit();
+      return { ...audit, running: true };
+    },
+    GET_AUDIT_STATUS: async () => ({ ...audit }),
+    CANDIDATES_FOUND: async (data, sender) => {
+      if (!sender.tab?.id || sender.tab.id === auditTabId()) return;
+      toolbar.addDetected(sender.tab.id, data.users.length);
+      await controller.addCandidates(sender.tab.id, data.users);
+    },
+    ROUTE_CHANGED: async (data, sender) => {
+      if (!sender.tab?.id) return;
+      toolbar.resetTab(sender.tab.id);
+      controller.handleRouteChange(sender.tab.id, data.sessionUrl);
+    },
+    RATE_LIMIT_REACHED: async (_data, sender) => {
+      if (!sender.tab?.id) return;
+      // Toasts from other tabs, or during a dry run, do not touch the run
+      if (await controller.handleRateLimitDetected(sender.tab.id)) notify('x_limit', controller.getStatus());
+    },
+    LOG_EVENT: async (event) => eventLog.record(event),
+    GET_EVENT_LOG: async () => eventLog.getEvents(),
+    CLEAR_EVENT_LOG: async () => {
+      await eventLog.clear();
+      return { status: 'cleared' };
+    },
+    ACCOUNT_DETECTED: async (data, sender) => {
+      const tabId = sender.tab?.id;
+      if (tabId === auditTabId()) return;
+      if (tabId) tabAccounts.set(tabId, data.handle);
+      // While a run has a tab, only that tab's account decides; other X tabs
+      // are picked up when a run starts on them
+      const runTabId = controller.getRunTabId();
+      if (runTabId !== null && tabId !== runTabId) return;
+      await switchAccount(data.handle);
+    },
+    SWITCH_ACCOUNT: async (data) => {
+      if (!(await getAccounts()).includes(data.handle)) throw new Error(`Unknown account ${data.handle}`);
+      await switchAccount(data.handle);
+      return { status: 'switched' };
+    },
+  };
+
+  serve(BACKGROUND_SCHEMA, handlers, { ready });
 });
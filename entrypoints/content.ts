@@ -1,286 +1,404 @@
-import { DetectedUser, detectPremiumUsers, DetectService } from "../utils/detector";
-import { FollowQueue } from "../utils/followQueue";
-import { getSettings, isFollowed, markAsFollowed, getRateLimitState, clearRateLimitState, checkAndResetDailyStats, getDailyLimitState, clearDailyLimitState, resetDailyStats as storageResetDailyStats } from "../utils/storage";
-import logger from "../utils/logger";
+import { createApp, h, ref, type Ref } from "vue";
+import type { ContentScriptContext } from "wxt/utils/content-script-context";
+import { createShadowRootUi } from "wxt/utils/content-script-ui/shadow-root";
+import { type CandidateUser, type DetectedUser, DetectService, toCandidate } from "../utils/detector";
+import type { FollowResult } from "../utils/followQueue";
+import { getSelectorPack, getSettings, watchSelectorPack, watchSettings, type PendingFollow } from "../utils/storage";
+import { queryTarget, runSelectorSelfTest, useSelectorPack } from "../utils/selectors";
+import { readXTheme, watchXTheme, type XTheme } from "../utils/theme";
+import { sessionUrl, watchRoute } from "../utils/route";
+import { isListSurface } from "../utils/surface";
+import { watchAccount } from "../utils/account";
+import { CONTENT_SCHEMA, notifyBackground, serve } from "../utils/protocol";
+import { isLoggedAt, recordEvent, setEventSink } from "../utils/eventLog";
+import logger, { setLogLevel, type LogLevelName } from "../utils/logger";
+import FloatingPanel from "../components/FloatingPanel.vue";
 import {
-  findGlobalVisibleFollow,
   hoverUser,
-  looksLikeFollow,
   monitorRateLimits,
-  safeSendMessage,
-  preventNav,
   findFollowButton,
+  findHoverCard,
+  findUnfollowButton,
+  readFollowControlState,
+  readFollowsBack,
   removeHover,
   sleepRandom
 } from "../utils";
 
-async function processUser(user: DetectedUser, queue: FollowQueue) {
-  const settings = await getSettings();
+/**
+ * Users detected on one page of the SPA, keyed by lower-cased handle; the
+ * background only ever sends handles.
+ */
+interface DetectionSession {
+  url: string;
+  detectedUsers: Map<string, DetectedUser>;
+  candidates: Map<string, CandidateUser>;
+}
 
-  if (
-    settings.skipFollowed &&
-    (await isFollowed(user.handle))
-  ) {
-    logger.info(
-      `[xfollow] Skipping ${user.handle} (already followed)`,
-    );
-    
-    return;
+/**
+ * Hovers the user, clicks the follow control and classifies what happened.
+ * The background records the outcome. A dry run stops short of the click.
+ */
+async function executeFollow(user: DetectedUser, dryRun = false): Promise<FollowResult> {
+  logger.info(
+    `[xfollow] Attempting to follow ${user.handle}...`,
+  );
+
+  if (!user.hoverElement || !user.element) {
+    return { outcome: "error", detail: "User is no longer on the page" };
   }
 
-  queue.add({
-    handle: user.handle,
-    onExecute: async () => {
-      logger.info(
-        `[xfollow] Attempting to follow ${user.handle}...`,
-      );
+  // Scroll into view to reduce chance of hitting nearby floating items
+  try {
+    (
+      user.element as HTMLElement
+    ).scrollIntoView({
+      block: "center",
+      inline: "center",
+      behavior: "auto",
+    });
+  } catch { }
 
-      if (!user.hoverElement || !user.element) {
-        return false;
-      }
+  logger.debug('hover user: ', user.displayName);
+  const { cx, cy, target } = await hoverUser(user);
+  recordEvent("hovered", "Hovered the user", { handle: user.handle });
 
-      // Scroll into view to reduce chance of hitting nearby floating items
-      try {
-        (
-          user.element as HTMLElement
-        ).scrollIntoView({
-          block: "center",
-          inline: "center",
-          behavior: "auto",
-        });
-      } catch { }
+  await sleepRandom(1000, 2000);
 
-      logger.debug('hover user: ', user.displayName);
-      const { cx, cy, target } = await hoverUser(user);
+  const followButton = findFollowButton(user);
 
-      await sleepRandom(1000, 2000);
+  logger.debug('follow button: ', followButton);
 
-      const followButton = findFollowButton(user);
+  if (followButton == null) {
+    // Work out why before the hover card closes
+    const hoverCard = findHoverCard();
+    const unfollowButton = findUnfollowButton(user);
 
-      logger.debug('follow button: ', followButton);
+    await removeHover(cx, cy, target);
 
-      if (followButton == null) {
+    if (unfollowButton) {
+      return { outcome: "already_following" };
+    }
+    if (!hoverCard) {
+      return { outcome: "hover_card_missing", detail: "Hover card did not open" };
+    }
+    return { outcome: "button_not_found", detail: "No follow control in the hover card" };
+  }
 
-        await removeHover(cx, cy, target);
+  if (dryRun) {
+    await removeHover(cx, cy, target);
+    return { outcome: "would_follow", detail: "Follow control found in the hover card" };
+  }
 
-        return false;
-      }
+  await sleepRandom(1000, 3000);
 
-      await sleepRandom(1000, 3000);
+  // 4) Diagnostic log the chosen element and ensure visibility
+  try {
+    try {
+      const rect = followButton.getBoundingClientRect();
+      logger.info(
+        "[xfollow] Clicking element",
+        {
+          tag: followButton.tagName,
+          aria: followButton.getAttribute &&
+            followButton.getAttribute(
+              "aria-label",
+            ),
+          testid: followButton.getAttribute &&
+            followButton.getAttribute(
+              "data-testid",
+            ),
+          rect: {
+            x: rect.left,
+            y: rect.top,
+            w: rect.width,
+            h: rect.height,
+          },
+          outer: (
+            followButton.outerHTML ||
+            ""
+          ).slice(0, 500),
+        },
+      );
+    } catch (logErr) { }
 
-      // 4) Diagnostic log the chosen element and ensure visibility
-      try {
-        try {
-          const rect = followButton.getBoundingClientRect();
-          logger.info(
-            "[xfollow] Clicking element",
-            {
-              tag: followButton.tagName,
-              aria: followButton.getAttribute &&
-                followButton.getAttribute(
-                  "aria-label",
-                ),
-              testid: followButton.getAttribute &&
-                followButton.getAttribute(
-                  "data-testid",
-                ),
-              rect: {
-                x: rect.left,
-                y: rect.top,
-                w: rect.width,
-                h: rect.height,
-              },
-              outer: (
-                followButton.outerHTML ||
-                ""
-              ).slice(0, 500),
-            },
-          );
-        } catch (logErr) { }
-
-        followButton.dispatchEvent(
-          new PointerEvent("pointerdown", {
-            bubbles: true,
-            cancelable: true,
-          } as any),
-        );
-        followButton.dispatchEvent(
-          new PointerEvent("pointerup", {
-            bubbles: true,
-            cancelable: true,
-          } as any),
-        );
-        followButton.dispatchEvent(
-          new MouseEvent("click", {
-            bubbles: true,
-            cancelable: true,
-            view: window,
-          }),
-        );
+    clickControl(followButton);
+    recordEvent("clicked", "Clicked the follow control in the hover card", { handle: user.handle });
 
-        logger.debug('clicked follow button: ', followButton);
+    logger.debug('clicked follow button: ', followButton);
 
-        await removeHover(cx, cy, target);
-        logger.debug('remove hover');
-      } catch (err) {
-        logger.error(
-          "[xfollow] click error",
-          err,
-        );
-      }
+    await removeHover(cx, cy, target);
+    logger.debug('remove hover');
+  } catch (err) {
+    logger.error(
+      "[xfollow] click error",
+      err,
+    );
+    return { outcome: "error", detail: String(err) };
+  }
 
-      await sleepRandom(500, 1500);
+  await sleepRandom(500, 1500);
 
-      const newTxt = (
-        followButton.textContent || ""
-      )
-        .trim()
-        .toLowerCase();
-      const newAria = (
-        followButton.getAttribute &&
-        (followButton.getAttribute(
-          "aria-label",
-        ) ||
-          "")
-      ).toLowerCase() || "";
-      if (
-        newTxt === "following" ||
-        newAria.startsWith("following")
-      ) {
-        await markAsFollowed(user.handle);
-        return true;
-      }
+  return classifyClick(followButton, user.handle);
+}
 
-      console.warn(
-        `[xfollow] Follow attempt may have failed for ${user.handle}; button text:`,
-        newTxt || newAria,
-      );
-      return false;
+function clickControl(el: HTMLElement) {
+  el.dispatchEvent(
+    new PointerEvent("pointerdown", {
+      bubbles: true,
+      cancelable: true,
+    } as any),
+  );
+  el.dispatchEvent(
+    new PointerEvent("pointerup", {
+      bubbles: true,
+      cancelable: true,
+    } as any),
+  );
+  el.dispatchEvent(
+    new MouseEvent("click", {
+      bubbles: true,
+      cancelable: true,
+      view: window,
+    }),
+  );
+}
+
+function classifyClick(followButton: HTMLElement, handle: string): FollowResult {
+  const state = readFollowControlState(followButton);
+  const result: FollowResult =
+    state === "following" ? { outcome: "followed" }
+      : state === "pending" ? { outcome: "pending", detail: "Follow request sent to a protected account" }
+        : { outcome: "no_effect", detail: `Button still reads "${(followButton.textContent || "").trim()}"` };
+
+  if (result.outcome === "no_effect") {
+    console.warn(
+      `[xfollow] Follow attempt may have failed for ${handle}:`,
+      result.detail,
+    );
+  }
+  return result;
+}
+
+/**
+ * Clicks the follow control inside a user list cell, where X renders it
+ * without a hover card.
+ */
+async function executeInlineFollow(user: DetectedUser, dryRun = false): Promise<FollowResult> {
+  logger.info(`[xfollow] Following ${user.handle} from the ${user.surface} list...`);
+
+  try {
+    user.element.scrollIntoView({ block: "center", inline: "center", behavior: "auto" });
+  } catch { }
+
+  const handle = user.handle;
+  const followButton = queryTarget(user.element, "followButton", { handle });
+  if (!followButton) {
+    if (queryTarget(user.element, "unfollowButton", { handle })) {
+      return { outcome: "already_following" };
+    }
+    return { outcome: "button_not_found", detail: "No follow control in the list cell" };
+  }
+  if (dryRun) {
+    return { outcome: "would_follow", detail: "Follow control found in the list" };
+  }
+
+  await sleepRandom(1000, 2000);
+  clickControl(followButton);
+  recordEvent("clicked", "Clicked the follow control in the list", { handle });
+  await sleepRandom(500, 1500);
+  return classifyClick(followButton, handle);
+}
+
+function isProfilePage(handle: string) {
+  return location.pathname.split("/")[1]?.toLowerCase() === handle.replace(/^@/, "").toLowerCase();
+}
+
+/**
+ * Clicks a follow control for `handle` that is rendered without hovering,
+ * e.g. on their profile. Used for pending follows whose reply is gone.
+ */
+async function executeDirectFollow(handle: string, dryRun = false): Promise<FollowResult> {
+  logger.info(`[xfollow] Following ${handle} from the page...`);
+  const deadline = Date.now() + 10000;
+
+  while (Date.now() < deadline) {
+    if (queryTarget(document, "unfollowButton", { handle })) {
+      return { outcome: "already_following" };
+    }
+    const followButton = queryTarget(document, "followButton", { handle });
+    if (followButton && dryRun) {
+      return { outcome: "would_follow", detail: "Follow control found on the page" };
+    }
+    if (followButton) {
+      await sleepRandom(1000, 2000);
+      clickControl(followButton);
+      recordEvent("clicked", "Clicked the follow control on the page", { handle });
+      await sleepRandom(500, 1500);
+      return classifyClick(followButton, handle);
+    }
+    await sleepRandom(400, 600);
+  }
+  return { outcome: "button_not_found", detail: "Profile did not show a follow control" };
+}
+
+/**
+ * Mounts the floating control panel in a shadow root so X's styles and ours
+ * don't leak into each other.
+ */
+async function mountPanel(ctx: ContentScriptContext, detectedCount: Ref<number>) {
+  const theme = ref<XTheme>(readXTheme());
+  const themeObserver = watchXTheme((next) => (theme.value = next));
+
+  const ui = await createShadowRootUi(ctx, {
+    name: "xfollow-panel",
+    position: "inline",
+    anchor: "body",
+    onMount: (container) => {
+      const app = createApp({
+        render: () =>
+          h(FloatingPanel, {
+            detectedCount: detectedCount.value,
+            theme: theme.value,
+          }),
+      });
+      app.mount(container);
+      return app;
+    },
+    onRemove: (app) => {
+      app?.unmount();
+      themeObserver.disconnect();
     },
   });
+  ui.mount();
 }
 
 export default defineContentScript({
   matches: ["*://*.x.com/*"],
-  async main() {
+  cssInjectionMode: "ui",
+  async main(ctx) {
     logger.info("[xfollow] Content script initialized.");
-    const settings = await getSettings();
-    const dailyStats = await getDailyStats();
-    let detectedHandles = new Set<string>();
-    let detectedUsers = new Array<DetectedUser>();
-
-    let queue: FollowQueue = new FollowQueue({
-      minDelay: settings.minDelay,
-      maxDelay: settings.maxDelay,
-      rateLimitThreshold: settings.rateLimitThreshold,
-      rateLimitDuration: settings.rateLimitDuration,
-      dailyFollowLimit: settings.dailyFollowLimit,
-      todayCount: dailyStats.today.count,
+    useSelectorPack(await getSelectorPack());
+    watchSelectorPack(useSelectorPack);
+
+    // Events go to the background's activity log; ones below the level are
+    // not even sent
+    let logLevel: LogLevelName = (await getSettings()).logLevel;
+    const applyLogLevel = (level: LogLevelName) => {
+      logLevel = level;
+      setLogLevel(level);
+    };
+    applyLogLevel(logLevel);
+    watchSettings((settings) => applyLogLevel(settings.logLevel));
+    setEventSink((event) => {
+      if (isLoggedAt(event.type, logLevel)) notifyBackground("LOG_EVENT", event);
     });
 
-    // Check for existing rate limit on startup
-    const rateLimitState = await getRateLimitState();
-    if (rateLimitState && rateLimitState.pauseUntil > Date.now()) {
-      queue.updateRateLimitConfig(settings.rateLimitThreshold, settings.rateLimitDuration);
-      // Enter rate limit state with the saved values
-      queue.enterRateLimitState(rateLimitState.pauseUntil, rateLimitState.successSinceLastPause);
-    } else if (rateLimitState) {
-      // Rate limit expired, clear it
-      await clearRateLimitState();
-    }
-
-    // Check for daily limit state on startup
-    await checkAndResetDailyStats();
-    const dailyLimitState = await getDailyLimitState();
-    if (dailyLimitState && dailyLimitState.isLimited) {
-      queue.updateDailyLimit(settings.dailyFollowLimit);
-    }
+    // Candidates are kept per session so returning to a thread restores
+    // them; DOM references are only kept for the current one
+    const sessions = new Map<string, DetectionSession>();
+    const openSession = (url: string) => {
+      const existing = sessions.get(url);
+      if (existing) return existing;
+      const created: DetectionSession = { url, detectedUsers: new Map(), candidates: new Map() };
+      sessions.set(url, created);
+      return created;
+    };
+    let session = openSession(sessionUrl(location.href));
+    let newCandidates: CandidateUser[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const detectedCount = ref(0);
+
+    // Batch newly detected users into one message for the background
+    const flushCandidates = () => {
+      flushTimer = null;
+      if (newCandidates.length === 0) return;
+      notifyBackground("CANDIDATES_FOUND", { users: newCandidates });
+      newCandidates = [];
+    };
 
     let detectService = new DetectService((user: DetectedUser) => {
-      if (!detectedHandles.has(user.handle)) {
-        detectedHandles.add(user.handle);
+      const key = user.handle.toLowerCase();
+      if (!session.candidates.has(key)) {
+        const candidate = toCandidate(user, session.url);
+        session.candidates.set(key, candidate);
+        detectedCount.value = session.candidates.size;
+        newCandidates.push(candidate);
+        if (!flushTimer) flushTimer = setTimeout(flushCandidates, 250);
 
-        detectedUsers.push(user);
         logger.info(
           `[xfollow] Detected premium user: ${user.handle}`,
         );
+        recordEvent("detected", `Detected on ${session.url}`, {
+          handle: user.handle,
+          data: { badge: user.badgeType, surface: user.surface },
+        });
       }
+      // Keep the freshest DOM reference for the executor
+      session.detectedUsers.set(key, user);
 
       return true;
     });
 
     detectService.initService();
-    // Clean up when the page is being unloaded to avoid operations after unload
-    window.addEventListener("pagehide", () => { queue?.stop(); }, { capture: true });
-
-    // Messaging
-    browser.runtime.onMessage.addListener(
-      (message, sender, sendResponse) => {
-        if (message.type === "GET_STATUS") {
-          const stats = queue?.getStats() || {
-            total: 0,
-            remaining: 0,
-            processed: 0,
-            success: 0,
-            status: "idle",
-          };
-          sendResponse({
-            ...stats,
-            detectedCount: detectedHandles.size,
-          });
-        }
-
-        if (message.type === "GET_RATE_LIMIT_INFO") {
-          const rateLimitInfo = queue?.getRateLimitInfo();
-          sendResponse(rateLimitInfo);
-        }
-
-        if (message.type === "GET_DAILY_LIMIT_INFO") {
-          const dailyLimitInfo = queue?.getDailyLimitInfo();
-          sendResponse(dailyLimitInfo);
-        }
-
-        if (message.type === "RESET_DAILY_STATS") {
-          (async () => {
-            await storageResetDailyStats();
-            await queue?.resumeFromDailyLimit();
-            sendResponse({ status: "ok" });
-          })();
-          return true;
-        }
 
-        if (message.type === "START_FOLLOW") {
-          (async () => {
-            queue.start();
-            sendResponse({ status: "started" });
-
-            while (queue?.getStats().status === "running") {
-              if (detectedUsers.length === 0) { 
-                await sleepRandom(1000, 3000);
-              }
+    watchRoute((href) => {
+      const url = sessionUrl(href);
+      if (url === session.url) return;
+      // Users found so far belong to the page being left
+      if (flushTimer) clearTimeout(flushTimer);
+      flushCandidates();
+      session.detectedUsers.clear();
+      session = openSession(url);
+      detectedCount.value = session.candidates.size;
+      logger.info(`[xfollow] Route changed to ${url}`);
+      notifyBackground("ROUTE_CHANGED", { sessionUrl: url });
+    });
 
-              const user = detectedUsers.shift();
+    // History, stats and limits are kept for the account logged in here
+    watchAccount((handle) => {
+      logger.info(`[xfollow] Logged in as ${handle}`);
+      notifyBackground("ACCOUNT_DETECTED", { handle });
+    });
 
-              if (user) { 
-                await processUser(user, queue);
-              } 
-            }
-          })();
-          return true;
-        }
+    // A pending follow is done through the detected reply, or through a
+    // control rendered without hovering (e.g. on the user's profile)
+    const resolveFollow = (pending: PendingFollow): Promise<FollowResult> | null => {
+      const user = session.detectedUsers.get(pending.handle.toLowerCase());
+      // X recycles reply rows while scrolling, so a detected user may be gone
+      if (user?.element.isConnected) {
+        return isListSurface(user.surface)
+          ? executeInlineFollow(user, pending.dryRun)
+          : executeFollow(user, pending.dryRun);
+      }
+      if (isProfilePage(pending.handle) || queryTarget(document, "followButton", { handle: pending.handle })) {
+        return executeDirectFollow(pending.handle, pending.dryRun);
+      }
+      return null;
+    };
 
-        if (message.type === "STOP_FOLLOW") {
-          queue?.stop();
-          sendResponse({ status: "stopped" });
+    // Messaging
+    serve(CONTENT_SCHEMA, {
+      GET_CANDIDATES: () => Array.from(session.candidates.values()),
+      EXECUTE_FOLLOW: async (pending): Promise<FollowResult> => {
+        const attempt = resolveFollow(pending);
+        if (!attempt) {
+          return { outcome: "button_not_found", detail: "User is not on this page", notOnPage: true };
         }
-        if (message.type === "RESET_HISTORY") {
-          sendResponse({ status: "ok" });
+        try {
+          return await attempt;
+        } catch (err) {
+          return { outcome: "error", detail: String(err) };
         }
-        return true;
       },
-    );
+      RUN_SELECTOR_SELF_TEST: () =>
+        runSelectorSelfTest(Array.from(session.candidates.values()).map((c) => c.handle)),
+      CHECK_FOLLOWS_BACK: async ({ handle }) => ({ followsBack: await readFollowsBack(handle) }),
+    });
 
     // Rate limit monitor
-    monitorRateLimits(queue!);
+    monitorRateLimits();
+
+    await mountPanel(ctx, detectedCount);
   },
 });
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readAccount, watchAccount } from "../utils/account";
+
+describe("readAccount", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("reads the handle from the profile tab", () => {
+    document.body.innerHTML = '<nav><a data-testid="AppTabBar_Profile_Link" href="/Alice_1">Profile</a></nav>';
+
+    expect(readAccount()).toBe("@alice_1");
+  });
+
+  it("falls back to the account switcher", () => {
+    document.body.innerHTML = `
+      <button data-testid="SideNav_AccountSwitcher_Button">
+        <span>Alice</span><span>@alice</span>
+      </button>`;
+
+    expect(readAccount()).toBe("@alice");
+  });
+
+  it("is null while logged out", () => {
+    document.body.innerHTML = '<a href="/login">Log in</a>';
+
+    expect(readAccount()).toBeNull();
+  });
+
+  it("reports the account once rendered and when it changes", async () => {
+    const callback = vi.fn();
+    const observer = watchAccount(callback);
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    document.body.innerHTML = '<a data-testid="AppTabBar_Profile_Link" href="/alice">Profile</a>';
+    await tick();
+    document.body.appendChild(document.createElement("div"));
+    await tick();
+    document.body.innerHTML = '<a data-testid="AppTabBar_Profile_Link" href="/bob">Profile</a>';
+    await tick();
+    observer.disconnect();
+
+    expect(callback.mock.calls).toEqual([["@alice"], ["@bob"]]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  countAt,
+  dailySeries,
+  emptyDay,
+  followStreaks,
+  hourlyTotals,
+  recordAnalytics,
+  sparklinePath,
+  successRatio,
+  sumDays,
+  type AnalyticsDay,
+} from "../utils/analytics";
+import { LOCAL_MIDNIGHT } from "../utils/clock";
+import { getAnalytics, setActiveAccount, updateSettings } from "../utils/storage";
+
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour, 30).getTime();
+
+const withSucceeded = (date: string, count: number): AnalyticsDay => {
+  const day = emptyDay(date);
+  day.totals.succeeded = count;
+  return day;
+};
+
+describe("countAt", () => {
+  it("counts per day and per hour", () => {
+    let days = countAt([], "attempted", at(1, 9), LOCAL_MIDNIGHT, 30);
+    days = countAt(days, "attempted", at(1, 9), LOCAL_MIDNIGHT, 30);
+    days = countAt(days, "failed", at(1, 22), LOCAL_MIDNIGHT, 30);
+    days = countAt(days, "attempted", at(2, 8), LOCAL_MIDNIGHT, 30);
+
+    expect(days.map((d) => d.date)).toEqual(["2025-01-01", "2025-01-02"]);
+    expect(days[0].totals).toMatchObject({ attempted: 2, failed: 1, succeeded: 0 });
+    expect(days[0].hours.attempted[9]).toBe(2);
+    expect(days[0].hours.failed[22]).toBe(1);
+  });
+
+  it("keys days and hours by the day boundary", () => {
+    const days = countAt([], "succeeded", at(2, 3), { resetHour: 4, timeZone: "" }, 30);
+    expect(days[0].date).toBe("2025-01-01");
+    expect(days[0].hours.succeeded[3]).toBe(1);
+  });
+
+  it("drops the days past the retention", () => {
+    let days: AnalyticsDay[] = [];
+    for (const day of [1, 2, 5, 9]) days = countAt(days, "succeeded", at(day, 12), LOCAL_MIDNIGHT, 5);
+    expect(days.map((d) => d.date)).toEqual(["2025-01-05", "2025-01-09"]);
+  });
+
+  it("does not change the days it is given", () => {
+    const days = countAt([], "skipped", at(1, 12), LOCAL_MIDNIGHT, 30);
+    countAt(days, "skipped", at(1, 12), LOCAL_MIDNIGHT, 30);
+    expect(days[0].totals.skipped).toBe(1);
+  });
+});
+
+describe("summaries", () => {
+  const days = [
+    countAt([], "attempted", at(1, 9), LOCAL_MIDNIGHT, 30)[0],
+    countAt([], "attempted", at(3, 9), LOCAL_MIDNIGHT, 30)[0],
+  ];
+  days[0].totals.succeeded = 1;
+
+  it("sums days and hours", () => {
+    expect(sumDays(days)).toMatchObject({ attempted: 2, succeeded: 1 });
+    expect(hourlyTotals(days, "attempted")[9]).toBe(2);
+    expect(successRatio(sumDays(days))).toBe(0.5);
+    expect(successRatio(sumDays([]))).toBeNull();
+  });
+
+  it("fills days without data with 0", () => {
+    expect(dailySeries(days, "attempted", "2025-01-04", 5)).toEqual([0, 1, 0, 1, 0]);
+  });
+
+  it("finds the current and longest streak", () => {
+    const streakDays = [
+      withSucceeded("2025-01-01", 2),
+      withSucceeded("2025-01-02", 1),
+      withSucceeded("2025-01-03", 4),
+      withSucceeded("2025-01-05", 1),
+      withSucceeded("2025-01-06", 3),
+      withSucceeded("2025-01-07", 0),
+    ];
+    expect(followStreaks(streakDays, "2025-01-07")).toEqual({ current: 2, longest: 3 });
+    expect(followStreaks(streakDays, "2025-01-08")).toEqual({ current: 0, longest: 3 });
+  });
+
+  it("draws a sparkline scaled to its box", () => {
+    expect(sparklinePath([0, 2, 1], 100, 20)).toBe("M0,20 L50,0 L100,10");
+    expect(sparklinePath([], 100, 20)).toBe("");
+  });
+});
+
+describe("recordAnalytics", () => {
+  it("keeps counts back to back and per account", async () => {
+    await updateSettings({ statsRetentionDays: 7 });
+    await setActiveAccount("@me");
+    await Promise.all([recordAnalytics("skipped"), recordAnalytics("skipped"), recordAnalytics("rateLimited")]);
+    expect((await getAnalytics())[0].totals).toMatchObject({ skipped: 2, rateLimited: 1 });
+
+    await setActiveAccount("@other");
+    expect(await getAnalytics()).toEqual([]);
+  });
+});
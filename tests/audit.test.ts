@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import {
+  buildFollowBackReport,
+  createProfileTabCheck,
+  getDueForAudit,
+  runFollowBackAudit,
+} from "../utils/audit";
+import { PROTOCOL_VERSION } from "../utils/protocol";
+import {
+  getFollowBackReport,
+  getFollowRecord,
+  saveFollowRecords,
+  setActiveAccount,
+  updateSettings,
+  type FollowRecord,
+} from "../utils/storage";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 0, 20, 12, 0, 0).getTime();
+
+const record = (handle: string, daysAgo: number, extra: Partial<FollowRecord> = {}): FollowRecord => ({
+  handle,
+  displayName: handle.slice(1),
+  followedAt: NOW - daysAgo * DAY,
+  sourceUrl: "https://x.com/op/status/1",
+  outcome: "followed",
+  runId: "run-1",
+  ...extra,
+});
+
+describe("getDueForAudit", () => {
+  it("returns unaudited follows older than the audit delay, oldest first", () => {
+    const records = [
+      record("@recent", 2),
+      record("@old", 10),
+      record("@older", 12),
+      record("@audited", 12, { followsBack: false, auditedAt: NOW }),
+      record("@already", 12, { outcome: "already_following" }),
+    ];
+
+    expect(getDueForAudit(records, 7, NOW).map((r) => r.handle)).toEqual(["@older", "@old"]);
+  });
+});
+
+describe("buildFollowBackReport", () => {
+  it("groups follow-back rates by day, thread, rule, badge and profile", () => {
+    const report = buildFollowBackReport(
+      [
+        record("@a", 10, { followsBack: true, rules: ["includeKeywords"], badgeType: "blue", profile: { id: "p-1", name: "Slow" } }),
+        record("@b", 10, { followsBack: false, rules: ["includeKeywords", "threadCap"], badgeType: "business" }),
+        record("@c", 9, { followsBack: true, sourceUrl: "https://x.com/op/status/2" }),
+        record("@d", 1),
+      ],
+      7,
+      NOW
+    );
+
+    expect(report.unaudited).toBe(1);
+    expect(report.overall).toMatchObject({ audited: 3, followedBack: 2 });
+    expect(report.byDay).toEqual([
+      { key: "2025-01-10", audited: 2, followedBack: 1, rate: 0.5 },
+      { key: "2025-01-11", audited: 1, followedBack: 1, rate: 1 },
+    ]);
+    expect(report.byThread.map((b) => [b.key, b.audited])).toEqual([
+      ["https://x.com/op/status/1", 2],
+      ["https://x.com/op/status/2", 1],
+    ]);
+    expect(report.byRule.map((b) => [b.key, b.followedBack, b.audited])).toEqual([
+      ["includeKeywords", 1, 2],
+      ["none", 1, 1],
+      ["threadCap", 0, 1],
+    ]);
+    expect(report.byBadge.map((b) => [b.key, b.followedBack, b.audited])).toEqual([
+      ["blue", 1, 1],
+      ["business", 0, 1],
+      ["unknown", 1, 1],
+    ]);
+    expect(report.byProfile?.map((b) => [b.key, b.followedBack, b.audited])).toEqual([
+      ["none", 1, 2],
+      ["Slow", 1, 1],
+    ]);
+  });
+});
+
+describe("runFollowBackAudit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores each result and saves the report", async () => {
+    // Follows at noon fall on the day before under a 13:00 reset
+    await updateSettings({ auditAfterDays: 7, dayResetHour: 13 });
+    await saveFollowRecords([record("@a", 10), record("@b", 8), record("@c", 8), record("@d", 1)]);
+    const check = vi.fn(async (handle: string) => (handle === "@c" ? null : handle === "@a"));
+
+    const audit = runFollowBackAudit(check, { minDelay: 10, maxDelay: 10 });
+    await vi.advanceTimersByTimeAsync(100);
+    const report = await audit;
+
+    expect(check.mock.calls.map(([handle]) => handle)).toEqual(["@a", "@b", "@c"]);
+    expect(await getFollowRecord("@a")).toMatchObject({ followsBack: true, auditedAt: NOW });
+    expect(await getFollowRecord("@b")).toMatchObject({ followsBack: false });
+    // Unreadable profiles stay due for the next audit
+    expect((await getFollowRecord("@c"))?.followsBack).toBeUndefined();
+    expect(report).toMatchObject({ unaudited: 2, overall: { audited: 2, followedBack: 1 } });
+    expect(report.byDay.map((b) => b.key)).toEqual(["2025-01-09", "2025-01-11"]);
+    expect(await getFollowBackReport()).toEqual(report);
+  });
+
+  it("stores results for the audited account after a switch", async () => {
+    await setActiveAccount("@me");
+    await saveFollowRecords([record("@a", 10)]);
+    const check = vi.fn(async () => {
+      await setActiveAccount("@other");
+      return true;
+    });
+
+    const audit = runFollowBackAudit(check, { minDelay: 0, maxDelay: 0 });
+    await vi.advanceTimersByTimeAsync(100);
+    await audit;
+
+    expect(await getFollowRecord("@a", "@me")).toMatchObject({ followsBack: true });
+    expect(await getFollowBackReport("@me")).toMatchObject({ overall: { audited: 1, followedBack: 1 } });
+    expect(await getFollowBackReport("@other")).toBeNull();
+  });
+
+  it("checks at most `limit` accounts per run", async () => {
+    await saveFollowRecords([record("@a", 10), record("@b", 9), record("@c", 8)]);
+    const check = vi.fn(async () => true);
+
+    const audit = runFollowBackAudit(check, { limit: 2, minDelay: 0, maxDelay: 0 });
+    await vi.advanceTimersByTimeAsync(100);
+    await audit;
+
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createProfileTabCheck", () => {
+  it("reports the tab it opened until it is closed", async () => {
+    vi.spyOn(fakeBrowser.tabs, "create").mockResolvedValue({ id: 9 } as any);
+    const remove = vi.spyOn(fakeBrowser.tabs, "remove").mockResolvedValue();
+    const sendMessage = vi.spyOn(fakeBrowser.tabs, "sendMessage").mockResolvedValue({ ok: true, data: { followsBack: true } });
+    const profiles = createProfileTabCheck();
+    expect(profiles.tabId()).toBeNull();
+
+    expect(await profiles.check("@alice")).toBe(true);
+    expect(profiles.tabId()).toBe(9);
+    expect(sendMessage).toHaveBeenCalledWith(9, { v: PROTOCOL_VERSION, type: "CHECK_FOLLOWS_BACK", data: { handle: "@alice" } });
+
+    await profiles.close();
+    expect(remove).toHaveBeenCalledWith(9);
+    expect(profiles.tabId()).toBeNull();
+  });
+});
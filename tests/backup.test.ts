@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createBackup,
+  followHistoryToCsv,
+  importBackup,
+  validateBackup,
+  type BackupFile,
+} from "../utils/backup";
+import { createProfile } from "../utils/profiles";
+import {
+  activateProfile,
+  getActiveProfile,
+  getDailyStats,
+  getFollowHistory,
+  getFollowRecord,
+  getSettings,
+  markAsFollowed,
+  setDailyStats,
+  updateSettings,
+  type FollowRecord,
+} from "../utils/storage";
+
+const record = (handle: string, overrides: Partial<FollowRecord> = {}): FollowRecord => ({
+  handle,
+  displayName: handle.slice(1),
+  followedAt: Date.UTC(2025, 0, 1),
+  sourceUrl: "https://x.com/op/status/1",
+  outcome: "followed",
+  runId: "run-1",
+  ...overrides,
+});
+
+const backupWith = async (overrides: Partial<BackupFile> = {}): Promise<BackupFile> => ({
+  ...(await createBackup()),
+  ...overrides,
+});
+
+describe("backup", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 0, 10, 12, 0, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("exports history, daily stats and settings", async () => {
+    await markAsFollowed(record("@alice"));
+    await updateSettings({ minDelay: 2500 });
+
+    const backup = await createBackup();
+
+    expect(backup).toMatchObject({ format: "xfollow-backup", version: 1 });
+    expect(backup.followHistory).toEqual([record("@alice")]);
+    expect(backup.dailyStats.today.date).toBe("2025-01-10");
+    expect(backup.settings.minDelay).toBe(2500);
+    expect(validateBackup(JSON.parse(JSON.stringify(backup))).ok).toBe(true);
+  });
+
+  it("writes the history as CSV with escaped cells", () => {
+    const csv = followHistoryToCsv([record("@alice", { displayName: 'Alice "A", Builder' })]);
+
+    expect(csv.split("\n")).toEqual([
+      "handle,displayName,followedAt,sourceUrl,outcome,runId,profile",
+      '@alice,"Alice ""A"", Builder",2025-01-01T00:00:00.000Z,https://x.com/op/status/1,followed,run-1,',
+    ]);
+  });
+
+  it("writes the profile name of each follow", () => {
+    const csv = followHistoryToCsv([record("@alice", { profile: { id: "p-1", name: "Slow" } })]);
+    expect(csv.split("\n")[1].endsWith(",run-1,Slow")).toBe(true);
+  });
+
+  it("rejects files that are not backups", () => {
+    expect(validateBackup({ hello: "world" })).toEqual({
+      ok: false,
+      errors: ["Not an xfollow backup file"],
+    });
+  });
+
+  it("reports every schema problem", async () => {
+    const backup = await backupWith();
+    const broken = {
+      ...backup,
+      followHistory: [{ ...record("@alice"), outcome: "maybe", followedAt: "yesterday" }],
+      settings: {
+        ...backup.settings,
+        minDelay: "fast",
+        filterRules: { ...backup.settings.filterRules, badgeTypes: ["blue", "platinum"] },
+      },
+    };
+
+    const result = validateBackup(broken);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      "followHistory[0].followedAt must be a timestamp",
+      "followHistory[0].outcome is not a known outcome",
+      "settings.minDelay must be a number",
+      "settings.filterRules.badgeTypes must be a list of badge types",
+    ]);
+  });
+
+  it("rejects records with invalid optional fields", async () => {
+    const backup = await backupWith({
+      followHistory: [
+        record("@alice", {
+          rules: "allowlist" as any,
+          surface: "moon" as any,
+          badgeType: "platinum" as any,
+          profile: { id: 1 } as any,
+          followsBack: "yes" as any,
+        }),
+        record("@bob", { surface: "followers", badgeType: "business", profile: null, followsBack: false, auditedAt: 1 }),
+      ],
+    });
+
+    const result = validateBackup(JSON.parse(JSON.stringify(backup)));
+
+    expect(!result.ok && result.errors).toEqual([
+      "followHistory[0].rules is not valid",
+      "followHistory[0].surface is not valid",
+      "followHistory[0].badgeType is not valid",
+      "followHistory[0].profile is not valid",
+      "followHistory[0].followsBack is not valid",
+    ]);
+  });
+
+  it("replace discards current data", async () => {
+    await markAsFollowed(record("@alice"));
+    const backup = await backupWith({
+      followHistory: [record("@bob")],
+      dailyStats: { today: { date: "2025-01-10", count: 4 }, history: [] },
+    });
+
+    await importBackup(backup, "replace");
+
+    expect((await getFollowHistory()).map((r) => r.handle)).toEqual(["@bob"]);
+    expect((await getDailyStats()).today.count).toBe(4);
+  });
+
+  it("merge keeps existing records and the higher daily counts", async () => {
+    await markAsFollowed(record("@alice", { runId: "local" }));
+    await setDailyStats({
+      today: { date: "2025-01-10", count: 2 },
+      history: [{ date: "2025-01-08", count: 5 }],
+    });
+    const backup = await backupWith({
+      followHistory: [record("ALICE", { runId: "imported" }), record("@bob")],
+      dailyStats: {
+        today: { date: "2025-01-09", count: 3 },
+        history: [{ date: "2025-01-08", count: 1 }, { date: "2025-01-10", count: 7 }],
+      },
+    });
+
+    await importBackup(backup, "merge");
+
+    expect((await getFollowHistory()).map((r) => r.handle).sort()).toEqual(["@alice", "@bob"]);
+    expect((await getFollowRecord("@alice"))?.runId).toBe("local");
+    expect(await getFollowRecord("@bob")).not.toBeNull();
+    expect(await getDailyStats()).toEqual({
+      today: { date: "2025-01-10", count: 7 },
+      history: [
+        { date: "2025-01-08", count: 5 },
+        { date: "2025-01-09", count: 3 },
+      ],
+    });
+  });
+
+  it.each(["merge", "replace"] as const)("imports settings into the active profile (%s)", async (mode) => {
+    const profile = await createProfile("Mine");
+    await activateProfile(profile.id);
+    const backup = await backupWith();
+    backup.settings = { ...backup.settings, dailyFollowLimit: 42 };
+
+    await importBackup(backup, mode);
+
+    expect((await getSettings()).dailyFollowLimit).toBe(42);
+    expect((await getActiveProfile())?.settings.dailyFollowLimit).toBe(42);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { clock, dayKey, fromZonedTime, isValidTimeZone, nextDayStart, setClock, zonedTime } from "../utils/clock";
+
+describe("clock", () => {
+  afterEach(() => {
+    setClock(null);
+  });
+
+  it("can be swapped for a fixed time", () => {
+    setClock({ now: () => 1234 });
+    expect(clock.now()).toBe(1234);
+
+    setClock(null);
+    expect(Math.abs(clock.now() - Date.now())).toBeLessThan(1000);
+  });
+});
+
+describe("day boundaries", () => {
+  const utc = (iso: string) => new Date(iso).getTime();
+
+  it("reads wall-clock time in a time zone", () => {
+    expect(zonedTime(utc("2025-03-01T23:30:00Z"), "Asia/Tokyo")).toEqual({
+      year: 2025,
+      month: 3,
+      day: 2,
+      hour: 8,
+      minute: 30,
+      weekday: 0,
+    });
+    expect(fromZonedTime(2025, 3, 2, 8, 30, "Asia/Tokyo")).toBe(utc("2025-03-01T23:30:00Z"));
+  });
+
+  it("starts the day at the reset hour", () => {
+    const boundary = { resetHour: 4, timeZone: "UTC" };
+
+    expect(dayKey(utc("2025-01-02T03:59:00Z"), boundary)).toBe("2025-01-01");
+    expect(dayKey(utc("2025-01-02T04:00:00Z"), boundary)).toBe("2025-01-02");
+    expect(nextDayStart(utc("2025-01-02T03:00:00Z"), boundary)).toBe(utc("2025-01-02T04:00:00Z"));
+    expect(nextDayStart(utc("2025-01-02T05:00:00Z"), boundary)).toBe(utc("2025-01-03T04:00:00Z"));
+  });
+
+  it("follows daylight saving changes", () => {
+    const boundary = { resetHour: 0, timeZone: "Europe/Berlin" };
+
+    // Clocks go forward on 30 March 2025; that day is 23 hours long
+    expect(nextDayStart(utc("2025-03-30T12:00:00Z"), boundary)).toBe(utc("2025-03-30T22:00:00Z"));
+    expect(nextDayStart(utc("2025-03-29T12:00:00Z"), boundary)).toBe(utc("2025-03-29T23:00:00Z"));
+  });
+
+  it("uses the browser's time zone when none is set", () => {
+    const at = new Date(2025, 0, 1, 23, 0).getTime();
+
+    expect(dayKey(at)).toBe("2025-01-01");
+    expect(nextDayStart(at)).toBe(new Date(2025, 0, 2).getTime());
+  });
+
+  it("validates time zone names", () => {
+    expect(isValidTimeZone("")).toBe(true);
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { detectPremiumUsers, detectUsers } from "../utils/detector";
+import { DEFAULT_SELECTOR_PACK, useSelectorPack } from "../utils/selectors";
+import { loadFixture } from "./helpers";
+
+describe("detectUsers", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("thread.html");
+  });
+
+  it("extracts handle, display name and badge from every article", () => {
+    const users = detectUsers();
+
+    expect(users.map((u) => u.handle)).toEqual([
+      "@op_author",
+      "@alice",
+      "@bob",
+      "@alice",
+      "@carol",
+    ]);
+    expect(users[1]).toMatchObject({
+      handle: "@alice",
+      displayName: "Alice",
+      isVerified: true,
+    });
+    expect(users[2].isVerified).toBe(false);
+  });
+
+  it("points the hover element at the handle link", () => {
+    const [, alice] = detectUsers();
+
+    expect(alice.hoverElement?.tagName).toBe("A");
+    expect(alice.hoverElement?.textContent).toBe("@alice");
+    expect(alice.element.getAttribute("data-testid")).toBe("tweet");
+  });
+
+  it("reads the reply text", () => {
+    const [, alice] = detectUsers();
+
+    expect(alice.replyText).toBe("A browser extension for X power users");
+  });
+
+  it("skips articles without a user name container", () => {
+    document.querySelector('[data-testid="User-Name"]')!.remove();
+
+    expect(detectUsers().map((u) => u.handle)).not.toContain("@op_author");
+  });
+
+  it("falls back to later selector chain entries", () => {
+    document
+      .querySelectorAll('[data-testid="icon-verified"]')
+      .forEach((badge) => badge.removeAttribute("data-testid"));
+
+    expect(detectPremiumUsers()).toHaveLength(3);
+  });
+});
+
+describe("badge types", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("thread.html");
+  });
+
+  const badgeOf = (handle: string) =>
+    document.querySelector(`a[href="/${handle}"] [data-testid="icon-verified"]`)!;
+
+  it("reads a plain checkmark as Premium and no checkmark as none", () => {
+    const [op, , bob] = detectUsers();
+
+    expect(op.badgeType).toBe("blue");
+    expect(bob.badgeType).toBeNull();
+  });
+
+  it("tells business, government and affiliate checkmarks apart", () => {
+    badgeOf("op_author").innerHTML = '<defs><linearGradient id="gold"></linearGradient></defs><path fill="url(#gold)"></path>';
+    document
+      .querySelectorAll('a[href="/alice"] [data-testid="icon-verified"]')
+      .forEach((badge) => badge.setAttribute("style", "color: rgb(130, 154, 171)"));
+    const org = document.createElement("img");
+    org.src = "https://pbs.twimg.com/profile_images/1/org_mini.jpg";
+    badgeOf("carol").after(org);
+
+    const badges = Object.fromEntries(detectUsers().map((u) => [u.handle, u.badgeType]));
+
+    expect(badges).toEqual({
+      "@op_author": "business",
+      "@alice": "government",
+      "@bob": null,
+      "@carol": "affiliate",
+    });
+  });
+});
+
+describe("direct replies", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("thread.html");
+  });
+
+  afterEach(() => {
+    history.replaceState(null, "", "/");
+  });
+
+  it("marks articles below the original post as direct replies", () => {
+    history.replaceState(null, "", "/op_author/status/100");
+
+    const flags = detectUsers().map((u) => [u.handle, u.isDirectReply]);
+
+    expect(flags).toEqual([
+      ["@op_author", false],
+      ["@alice", true],
+      ["@bob", true],
+      ["@alice", true],
+      ["@carol", true],
+    ]);
+  });
+
+  it("treats ancestors of the focused post as non-replies", () => {
+    history.replaceState(null, "", "/alice/status/103");
+
+    const flags = detectUsers().map((u) => u.isDirectReply);
+
+    expect(flags).toEqual([false, false, false, false, true]);
+  });
+
+  it("tells nested replies from direct ones", () => {
+    // Reply chains are separated by cells without a post
+    loadFixture("thread-nested.html");
+    history.replaceState(null, "", "/op_author/status/100");
+
+    const flags = detectUsers().map((u) => [u.handle, u.isDirectReply]);
+
+    expect(flags).toEqual([
+      ["@op_author", false],
+      ["@dave", true],
+      // Below Dave in his reply chain
+      ["@erin", false],
+      // "Replying to" names the target
+      ["@frank", false],
+      ["@grace", true],
+      ["@heidi", false],
+    ]);
+  });
+
+  it("counts replies without a \"Replying to\" line as direct when X does not separate reply chains", () => {
+    loadFixture("thread-nested.html");
+    history.replaceState(null, "", "/op_author/status/100");
+    document.querySelectorAll('[data-testid="cellInnerDiv"]:not(:has(article))').forEach((gap) => gap.remove());
+
+    const flags = detectUsers().map((u) => [u.handle, u.isDirectReply]);
+
+    expect(flags).toEqual([
+      ["@op_author", false],
+      ["@dave", true],
+      ["@erin", true],
+      ["@frank", false],
+      ["@grace", true],
+      ["@heidi", true],
+    ]);
+  });
+
+  it("has no direct replies off thread pages", () => {
+    expect(detectUsers().some((u) => u.isDirectReply)).toBe(false);
+  });
+
+  it("records whether a post was read in a thread or a timeline", () => {
+    expect(detectUsers()[0].surface).toBe("timeline");
+
+    history.replaceState(null, "", "/op_author/status/100");
+
+    expect(detectUsers()[0].surface).toBe("thread");
+  });
+});
+
+describe("user lists", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("user-list.html");
+    history.replaceState(null, "", "/op_author/followers");
+  });
+
+  afterEach(() => {
+    history.replaceState(null, "", "/");
+  });
+
+  it("reads every cell of the list and ignores the sidebar", () => {
+    const users = detectUsers();
+
+    expect(users.map((u) => [u.handle, u.displayName, u.isVerified])).toEqual([
+      ["@alice", "Alice", true],
+      ["@bob", "Bob", false],
+      ["@carol", "Carol", true],
+    ]);
+    expect(users.every((u) => u.surface === "followers")).toBe(true);
+  });
+
+  it("reads the bio but not the follow indicator", () => {
+    const [alice, bob, carol] = detectUsers();
+
+    expect(alice.bio).toBe("Building browser extensions");
+    expect(bob.bio).toBe("");
+    expect(carol.bio).toBe("Design systems and type");
+  });
+
+  it("points the element at the cell", () => {
+    const [alice] = detectUsers();
+
+    expect(alice.element.getAttribute("data-testid")).toBe("UserCell");
+    expect(alice.hoverElement?.textContent).toBe("@alice");
+  });
+
+  it("records the surface of engagement lists", () => {
+    history.replaceState(null, "", "/op_author/status/100/likes");
+
+    expect(detectUsers()[0].surface).toBe("likes");
+  });
+
+  it("leaves cells alone on pages without a list", () => {
+    history.replaceState(null, "", "/home");
+
+    expect(detectUsers()).toEqual([]);
+  });
+});
+
+describe("detectPremiumUsers", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("thread.html");
+  });
+
+  it("keeps verified users only, de-duplicated by handle", () => {
+    const handles = detectPremiumUsers().map((u) => u.handle);
+
+    expect(handles).toEqual(["@op_author", "@alice", "@carol"]);
+  });
+
+  it("returns nothing when the page has no articles", () => {
+    document.body.innerHTML = "";
+
+    expect(detectPremiumUsers()).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { EventLog, filterEvents, isLoggedAt, recordEvent, setEventSink, type ActivityEvent } from "../utils/eventLog";
+import { getEventLog, setEventLog } from "../utils/storage";
+
+const event = (type: ActivityEvent["type"], handle?: string, at = 1000): ActivityEvent => ({
+  at,
+  type,
+  handle,
+  message: type,
+});
+
+describe("isLoggedAt", () => {
+  it("keeps events at or above the level", () => {
+    expect(isLoggedAt("detected", "debug")).toBe(true);
+    expect(isLoggedAt("detected", "info")).toBe(false);
+    expect(isLoggedAt("queued", "info")).toBe(true);
+    expect(isLoggedAt("failed", "warn")).toBe(true);
+    expect(isLoggedAt("failed", "silent")).toBe(false);
+  });
+});
+
+describe("filterEvents", () => {
+  const events = [event("queued", "@Alice", 1), event("failed", "@bob", 2), event("verified", "@alice", 3), event("rate_limited")];
+
+  it("returns the newest first", () => {
+    expect(filterEvents(events, { types: [], handle: "" }).map((e) => e.at)).toEqual([1000, 3, 2, 1]);
+  });
+
+  it("filters by type and handle", () => {
+    expect(filterEvents(events, { types: ["queued", "verified"], handle: "@ALI" }).map((e) => e.at)).toEqual([3, 1]);
+  });
+});
+
+describe("recordEvent", () => {
+  afterEach(() => setEventSink(null));
+
+  it("delivers to the sink with the current time", () => {
+    const received: ActivityEvent[] = [];
+    setEventSink((e) => received.push(e));
+
+    recordEvent("queued", "Queued", { handle: "@alice" });
+
+    expect(received).toEqual([{ at: expect.any(Number), type: "queued", message: "Queued", handle: "@alice" }]);
+  });
+});
+
+describe("EventLog", () => {
+  it("keeps only the newest events", async () => {
+    const log = new EventLog(3);
+    await log.init();
+    for (let i = 1; i <= 5; i++) log.record(event("queued", `@user${i}`, i));
+    await log.flush();
+
+    expect(log.getEvents().map((e) => e.at)).toEqual([3, 4, 5]);
+    expect((await getEventLog()).map((e) => e.at)).toEqual([3, 4, 5]);
+  });
+
+  it("drops events below its level", () => {
+    const log = new EventLog();
+    log.setLevel("warn");
+
+    log.record(event("queued"));
+    log.record(event("failed"));
+
+    expect(log.getEvents().map((e) => e.type)).toEqual(["failed"]);
+  });
+
+  it("appends events recorded before the persisted log was loaded", async () => {
+    await setEventLog([event("queued", "@old", 1)]);
+    const log = new EventLog();
+    log.record(event("verified", "@new", 2));
+
+    await log.init();
+    await log.flush();
+
+    expect(log.getEvents().map((e) => e.handle)).toEqual(["@old", "@new"]);
+    expect((await getEventLog()).map((e) => e.handle)).toEqual(["@old", "@new"]);
+  });
+
+  it("clears the persisted log", async () => {
+    const log = new EventLog();
+    await log.init();
+    log.record(event("queued"));
+
+    await log.clear();
+
+    expect(log.getEvents()).toEqual([]);
+    expect(await getEventLog()).toEqual([]);
+  });
+});
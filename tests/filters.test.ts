@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { DetectedUser } from "../utils/detector";
+import {
+  activeRules,
+  compileKeyword,
+  DEFAULT_FILTER_RULES,
+  evaluateFilters,
+  type FilterRules,
+} from "../utils/filters";
+
+const user = (overrides: Partial<DetectedUser> = {}) =>
+  ({
+    handle: "@alice",
+    displayName: "Alice Builds",
+    isVerified: true,
+    replyText: "Shipping a browser extension",
+    isDirectReply: true,
+    ...overrides,
+  }) as DetectedUser;
+
+const rules = (overrides: Partial<FilterRules> = {}): FilterRules => ({
+  ...DEFAULT_FILTER_RULES,
+  ...overrides,
+});
+
+const context = { threadUrl: "https://x.com/op/status/1", queuedInThread: 0 };
+
+describe("evaluateFilters", () => {
+  it("allows everyone with the default rules", () => {
+    expect(evaluateFilters(user(), rules(), context)).toEqual({ allowed: true });
+  });
+
+  it("skips denylisted handles regardless of case or @", () => {
+    const decision = evaluateFilters(user(), rules({ denyHandles: ["ALICE"] }), context);
+
+    expect(decision).toMatchObject({ allowed: false, rule: "denylist" });
+  });
+
+  it("only allows allowlisted handles when the allowlist is set", () => {
+    expect(evaluateFilters(user(), rules({ allowHandles: ["@bob"] }), context))
+      .toMatchObject({ allowed: false, rule: "allowlist" });
+    expect(evaluateFilters(user(), rules({ allowHandles: ["@alice"] }), context))
+      .toMatchObject({ allowed: true });
+  });
+
+  it("applies exclude keywords to display name and reply text", () => {
+    expect(evaluateFilters(user(), rules({ excludeKeywords: ["builds"] }), context))
+      .toMatchObject({ rule: "excludeKeywords", reason: 'Matched "builds"' });
+    expect(evaluateFilters(user(), rules({ excludeKeywords: ["/^shipping/i"] }), context))
+      .toMatchObject({ rule: "excludeKeywords" });
+  });
+
+  it("requires an include keyword match when set", () => {
+    expect(evaluateFilters(user(), rules({ includeKeywords: ["crypto"] }), context))
+      .toMatchObject({ allowed: false, rule: "includeKeywords" });
+    expect(evaluateFilters(user(), rules({ includeKeywords: ["crypto", "extension"] }), context))
+      .toMatchObject({ allowed: true });
+  });
+
+  it("skips non-direct replies when restricted to direct replies", () => {
+    const decision = evaluateFilters(
+      user({ isDirectReply: false }),
+      rules({ directRepliesOnly: true }),
+      context
+    );
+
+    expect(decision).toMatchObject({ allowed: false, rule: "directRepliesOnly" });
+  });
+
+  it("skips badge types that are not eligible", () => {
+    const decision = evaluateFilters(
+      user({ badgeType: "government" }),
+      rules({ badgeTypes: ["blue", "business"] }),
+      context
+    );
+
+    expect(decision).toEqual({ allowed: false, rule: "badgeType", reason: "Government badges are not followed" });
+    expect(evaluateFilters(user({ badgeType: "blue" }), rules({ badgeTypes: ["blue"] }), context))
+      .toEqual({ allowed: true });
+  });
+
+  it("matches keywords against the bio of list users, who are not replies", () => {
+    const listed = user({ replyText: undefined, isDirectReply: undefined, surface: "followers", bio: "Crypto trader" });
+
+    expect(evaluateFilters(listed, rules({ directRepliesOnly: true }), context)).toEqual({ allowed: true });
+    expect(evaluateFilters(listed, rules({ excludeKeywords: ["crypto"] }), context))
+      .toMatchObject({ allowed: false, rule: "excludeKeywords" });
+  });
+
+  it("enforces the per-thread cap", () => {
+    const capped = rules({ maxFollowsPerThread: 2 });
+
+    expect(evaluateFilters(user(), capped, { ...context, queuedInThread: 1 }).allowed).toBe(true);
+    expect(evaluateFilters(user(), capped, { ...context, queuedInThread: 2 }))
+      .toMatchObject({ allowed: false, rule: "threadCap" });
+  });
+
+  it("reports the denylist before other rules", () => {
+    const decision = evaluateFilters(
+      user({ isDirectReply: false }),
+      rules({ denyHandles: ["@alice"], directRepliesOnly: true }),
+      context
+    );
+
+    expect(decision.rule).toBe("denylist");
+  });
+});
+
+describe("compileKeyword", () => {
+  it("treats invalid regex as never matching", () => {
+    expect(compileKeyword("/([/")("anything")).toBe(false);
+  });
+
+  it("matches the same text every time with g or y flags", () => {
+    for (const entry of ["/ship/g", "/ship/y", "/ship/gi"]) {
+      const matches = compileKeyword(entry);
+
+      expect(matches("ship it")).toBe(true);
+      expect(matches("ship it")).toBe(true);
+    }
+  });
+
+  it("ignores blank keywords", () => {
+    expect(compileKeyword("  ")("anything")).toBe(false);
+  });
+});
+
+describe("activeRules", () => {
+  it("lists only the rules that are switched on", () => {
+    expect(activeRules(rules())).toEqual([]);
+    expect(
+      activeRules(rules({ includeKeywords: ["ai"], directRepliesOnly: true, maxFollowsPerThread: 3 }))
+    ).toEqual(["includeKeywords", "directRepliesOnly", "threadCap"]);
+    expect(activeRules(rules({ badgeTypes: ["blue"] }))).toEqual(["badgeType"]);
+  });
+});
@@ -0,0 +1,377 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FollowQueue,
+  type FollowOutcome,
+  type FollowTask,
+} from "../utils/followQueue";
+import type { RateWindow } from "../utils/rateLimiter";
+import {
+  getBackoffState,
+  getDailyLimitState,
+  getDailyStats,
+  getRateLimitState,
+  getRecentFollows,
+} from "../utils/storage";
+
+const task = (handle: string, outcome: FollowOutcome = "followed"): FollowTask => ({
+  handle,
+  onExecute: vi.fn(async () => ({ outcome })),
+});
+
+const perMinute = (limit: number): RateWindow[] => [
+  { id: "1m", label: "minute", durationMs: 60_000, limit },
+];
+
+const fastQueue = (options: ConstructorParameters<typeof FollowQueue>[0] = {}) =>
+  new FollowQueue({ minDelay: 10, maxDelay: 20, ...options });
+
+describe("FollowQueue", () => {
+  let queue: FollowQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 0, 1, 12, 0, 0));
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    vi.useRealTimers();
+  });
+
+  it("starts idle and ignores duplicate handles", () => {
+    queue = fastQueue();
+    queue.add(task("@alice"));
+    queue.add(task("@alice"));
+
+    expect(queue.getStats()).toMatchObject({
+      total: 1,
+      remaining: 1,
+      processed: 0,
+      success: 0,
+      status: "idle",
+    });
+  });
+
+  it("executes tasks in order and counts successes", async () => {
+    queue = fastQueue();
+    const alice = task("@alice");
+    const bob = task("@bob", "no_effect");
+    queue.add(alice);
+    queue.add(bob);
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(alice.onExecute).toHaveBeenCalledOnce();
+    expect(bob.onExecute).toHaveBeenCalledOnce();
+    expect(queue.getStats()).toMatchObject({
+      processed: 2,
+      success: 1,
+      remaining: 0,
+      status: "running",
+    });
+    expect((await getDailyStats()).today.count).toBe(1);
+  });
+
+  it("counts each outcome separately", async () => {
+    queue = fastQueue();
+    const outcomes: FollowOutcome[] = [
+      "followed",
+      "pending",
+      "already_following",
+      "button_not_found",
+      "hover_card_missing",
+      "no_effect",
+    ];
+    outcomes.forEach((outcome, i) => queue.add(task(`@user${i}`, outcome)));
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(200);
+
+    const stats = queue.getStats();
+    expect(stats.success).toBe(2);
+    expect(stats.outcomes).toEqual({
+      followed: 1,
+      pending: 1,
+      already_following: 1,
+      button_not_found: 1,
+      hover_card_missing: 1,
+      no_effect: 1,
+      would_follow: 0,
+      error: 0,
+    });
+    expect((await getDailyStats()).today.count).toBe(2);
+  });
+
+  it("counts a throwing task as processed and moves on", async () => {
+    queue = fastQueue();
+    queue.add({
+      handle: "@broken",
+      onExecute: async () => {
+        throw new Error("boom");
+      },
+    });
+    const bob = task("@bob");
+    queue.add(bob);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(bob.onExecute).toHaveBeenCalledOnce();
+    expect(queue.getStats()).toMatchObject({ processed: 2, success: 1 });
+    expect(queue.getStats().outcomes.error).toBe(1);
+  });
+
+  it("picks up tasks added while running", async () => {
+    queue = fastQueue();
+    queue.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const late = task("@late");
+    queue.add(late);
+    await vi.advanceTimersByTimeAsync(2500);
+
+    expect(late.onExecute).toHaveBeenCalledOnce();
+  });
+
+  it("stop() clears pending tasks", async () => {
+    queue = fastQueue();
+    const alice = task("@alice");
+    queue.add(alice);
+
+    queue.stop();
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(alice.onExecute).not.toHaveBeenCalled();
+    expect(queue.getStats().remaining).toBe(0);
+  });
+
+  it("pause() keeps pending tasks and resume() continues where it left off", async () => {
+    queue = fastQueue({ minDelay: 1000, maxDelay: 1000 });
+    const tasks = ["@a", "@b", "@c"].map((h) => task(h));
+    tasks.forEach((t) => queue.add(t));
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+    queue.pause();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(tasks[1].onExecute).not.toHaveBeenCalled();
+    expect(queue.getStats()).toMatchObject({ status: "paused", processed: 1, success: 1, remaining: 2 });
+
+    queue.resume();
+    await vi.advanceTimersByTimeAsync(2500);
+
+    expect(tasks[1].onExecute).toHaveBeenCalledOnce();
+    expect(tasks[2].onExecute).toHaveBeenCalledOnce();
+    expect(queue.getStats()).toMatchObject({ status: "running", processed: 3, success: 3 });
+  });
+
+  it("stays paused when the queue runs empty", async () => {
+    queue = fastQueue();
+    queue.add(task("@a"));
+
+    queue.start();
+    queue.pause();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(queue.getStats()).toMatchObject({ status: "paused", remaining: 0 });
+  });
+
+  it("keeps the rate-limit timer running while paused", async () => {
+    queue = fastQueue({ rateWindows: perMinute(1) });
+    const tasks = ["@a", "@b"].map((h) => task(h));
+    tasks.forEach((t) => queue.add(t));
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    queue.pause();
+    expect(queue.getSnapshot().pausedFrom).toBe("rate_limited");
+    expect(queue.getRateLimitInfo().isRateLimited).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(queue.getStats().status).toBe("paused");
+    expect(queue.getRateLimitInfo().isRateLimited).toBe(false);
+    expect(tasks[1].onExecute).not.toHaveBeenCalled();
+
+    queue.resume();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(tasks[1].onExecute).toHaveBeenCalledOnce();
+  });
+
+  it("resumes into a rate-limit pause that is still running", async () => {
+    queue = fastQueue({ rateWindows: perMinute(1) });
+    ["@a", "@b"].forEach((h) => queue.add(task(h)));
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    queue.pause();
+    queue.resume();
+
+    expect(queue.getStats().status).toBe("rate_limited");
+  });
+
+  it("pauses until the full window has room again", async () => {
+    const start = Date.now();
+    queue = fastQueue({ rateWindows: perMinute(2) });
+    const tasks = ["@a", "@b", "@c"].map((h) => task(h));
+    tasks.forEach((t) => queue.add(t));
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(queue.getStats().status).toBe("rate_limited");
+    expect(tasks[2].onExecute).not.toHaveBeenCalled();
+    const info = queue.getRateLimitInfo();
+    expect(info).toMatchObject({
+      isRateLimited: true,
+      reason: "window",
+      pauseUntil: start + 60_000,
+      binding: { id: "1m", used: 2, limit: 2 },
+    });
+    expect(await getRateLimitState()).toMatchObject({ reason: "window", windowId: "1m" });
+    expect(await getRecentFollows()).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(tasks[2].onExecute).toHaveBeenCalledOnce();
+    expect(queue.getStats().status).toBe("running");
+    expect(await getRateLimitState()).toBeNull();
+  });
+
+  it("counts follows made before the queue was built", async () => {
+    const earlier = Date.now() - 30_000;
+    queue = fastQueue({ rateWindows: perMinute(1), recentFollows: [earlier] });
+    const alice = task("@a");
+    queue.add(alice);
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(alice.onExecute).not.toHaveBeenCalled();
+    expect(queue.getRateLimitInfo().pauseUntil).toBe(earlier + 60_000);
+  });
+
+  it("is not held back by full windows on a dry run", async () => {
+    queue = fastQueue({ rateWindows: perMinute(1), recentFollows: [Date.now() - 30_000], dryRun: true });
+    const alice = task("@a", "would_follow");
+    queue.add(alice);
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(alice.onExecute).toHaveBeenCalled();
+    expect(queue.getStats()).toMatchObject({ processed: 1, success: 0 });
+    expect(await getRateLimitState()).toBeNull();
+    expect((await getDailyStats()).today.count).toBe(0);
+  });
+
+  it("only backs off while it has a run going", async () => {
+    queue = fastQueue({ backoff: { baseMs: 1000, maxMs: 3000 } });
+
+    expect(await queue.backOff()).toBe(false);
+    expect(await getBackoffState()).toBeNull();
+
+    queue.add(task("@a"));
+    queue.start();
+    expect(await queue.backOff()).toBe(true);
+    queue.stop();
+    expect(await queue.backOff()).toBe(false);
+    expect(await getBackoffState()).toMatchObject({ level: 1 });
+  });
+
+  it("backs off exponentially when X reports limits and resets after a follow", async () => {
+    queue = fastQueue({ backoff: { baseMs: 1000, maxMs: 3000 } });
+    const alice = task("@a");
+    queue.add(alice);
+    queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const now = Date.now();
+    await queue.backOff();
+    expect(queue.getRateLimitInfo()).toMatchObject({ reason: "backoff", pauseUntil: now + 1000, backoffLevel: 1 });
+    await queue.backOff();
+    expect(queue.getRateLimitInfo().pauseUntil).toBe(now + 2000);
+    await queue.backOff();
+    expect(queue.getRateLimitInfo().pauseUntil).toBe(now + 3000);
+    expect(await getBackoffState()).toMatchObject({ level: 3 });
+    expect(await getRateLimitState()).toMatchObject({ reason: "backoff", pauseUntil: now + 3000 });
+
+    queue.add(task("@b"));
+    await vi.advanceTimersByTimeAsync(3100);
+
+    expect(queue.getStats().status).toBe("running");
+    expect(queue.getRateLimitInfo().backoffLevel).toBe(0);
+    expect(await getBackoffState()).toBeNull();
+  });
+
+  it("stops at the daily limit and resets at midnight", async () => {
+    vi.setSystemTime(new Date(2025, 0, 1, 23, 0, 0));
+    queue = fastQueue({ dailyFollowLimit: 2 });
+    const tasks = ["@a", "@b", "@c"].map((h) => task(h));
+    tasks.forEach((t) => queue.add(t));
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    const midnight = new Date(2025, 0, 2, 0, 0, 0).getTime();
+    expect(queue.getStats().status).toBe("daily_limit_reached");
+    expect(queue.getDailyLimitInfo()).toMatchObject({
+      isDailyLimited: true,
+      todayCount: 2,
+      remaining: 0,
+      resetAt: midnight,
+    });
+    expect(await getDailyLimitState()).toMatchObject({ isLimited: true });
+    expect(tasks[2].onExecute).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(midnight - Date.now() + 100);
+
+    expect(tasks[2].onExecute).toHaveBeenCalledOnce();
+    expect(queue.getDailyLimitInfo()).toMatchObject({
+      isDailyLimited: false,
+      todayCount: 1,
+    });
+    expect(await getDailyLimitState()).toBeNull();
+  });
+
+  it("resets the daily limit at the day boundary's hour", async () => {
+    vi.setSystemTime(new Date(2025, 0, 1, 23, 0, 0));
+    queue = fastQueue({ dailyFollowLimit: 1, dayBoundary: { resetHour: 4, timeZone: "" } });
+    queue.add(task("@a"));
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(queue.getDailyLimitInfo().resetAt).toBe(new Date(2025, 0, 2, 4, 0, 0).getTime());
+  });
+
+  it("starts from the stored count for today", () => {
+    queue = fastQueue({ dailyFollowLimit: 5, todayCount: 3 });
+
+    expect(queue.getDailyLimitInfo()).toMatchObject({
+      todayCount: 3,
+      remaining: 2,
+      resetAt: null,
+    });
+  });
+
+  it("resumeFromDailyLimit() clears today's count", async () => {
+    queue = fastQueue({ dailyFollowLimit: 1 });
+    queue.add(task("@a"));
+    queue.start();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(queue.getStats().status).toBe("daily_limit_reached");
+
+    await queue.resumeFromDailyLimit();
+
+    expect(queue.getDailyLimitInfo()).toMatchObject({
+      isDailyLimited: false,
+      todayCount: 0,
+    });
+  });
+});
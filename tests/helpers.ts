@@ -0,0 +1,38 @@
+/**
+ * Shared helpers for the DOM fixture tests.
+ */
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Reads an HTML fixture from `tests/fixtures`.
+ */
+export function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+/**
+ * Replaces the document body with the given fixture.
+ */
+export function loadFixture(name: string) {
+  document.body.innerHTML = readFixture(name);
+}
+
+/**
+ * happy-dom does no layout, so every element reports an empty rect. Give an
+ * element a fixed box so visibility and distance checks can run.
+ */
+export function stubRect(
+  el: Element,
+  box: { left: number; top: number; width: number; height: number }
+) {
+  const rect = {
+    ...box,
+    x: box.left,
+    y: box.top,
+    right: box.left + box.width,
+    bottom: box.top + box.height,
+    toJSON: () => box,
+  };
+  el.getBoundingClientRect = () => rect as DOMRect;
+}
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import type { DetectedUser } from "../utils/detector";
+import {
+  findFollowButton,
+  findGlobalVisibleFollow,
+  findHoverCard,
+  findUnfollowButton,
+  looksLikeFollow,
+  monitorRateLimits,
+  readFollowControlState,
+  readFollowsBack,
+} from "../utils";
+import { PROTOCOL_VERSION } from "../utils/protocol";
+import { DEFAULT_SELECTOR_PACK, useSelectorPack } from "../utils/selectors";
+import { loadFixture, readFixture, stubRect } from "./helpers";
+
+const userFor = (handle: string) => ({ handle }) as DetectedUser;
+
+describe("findFollowButton", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("hover-card.html");
+  });
+
+  it("finds the hover card follow button by handle", () => {
+    const button = findFollowButton(userFor("@alice"));
+
+    expect(button?.getAttribute("data-testid")).toBe("1001-follow");
+  });
+
+  it("resolves non-button follow controls through the fallback chain", () => {
+    const button = findFollowButton(userFor("@erin"));
+
+    expect(button?.getAttribute("data-testid")).toBe("1005-follow");
+  });
+
+  it("returns null when no control exists for the handle", () => {
+    expect(findFollowButton(userFor("@nobody"))).toBeNull();
+  });
+});
+
+describe("hover card state", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("hover-card.html");
+  });
+
+  it("finds the open hover card", () => {
+    expect(findHoverCard()).not.toBeNull();
+
+    findHoverCard()!.remove();
+    expect(findHoverCard()).toBeNull();
+  });
+
+  it("finds the unfollow control of an already followed user", () => {
+    expect(findUnfollowButton(userFor("@dave"))).not.toBeNull();
+    expect(findUnfollowButton(userFor("@alice"))).toBeNull();
+  });
+});
+
+describe("readFollowControlState", () => {
+  const control = (text: string, aria = "") => {
+    const el = document.createElement("button");
+    el.textContent = text;
+    if (aria) el.setAttribute("aria-label", aria);
+    return el;
+  };
+
+  it("classifies follow, following and pending labels", () => {
+    expect(readFollowControlState(control("Follow", "Follow @alice"))).toBe("follow");
+    expect(readFollowControlState(control("Following", "Following @alice"))).toBe("following");
+    expect(readFollowControlState(control("Pending", "Pending follow request from you. Click to cancel your follow request to @alice"))).toBe("pending");
+    expect(readFollowControlState(control("Reply"))).toBe("unknown");
+  });
+});
+
+describe("findGlobalVisibleFollow", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    loadFixture("hover-card.html");
+    const place = (selector: string, left: number, top: number) =>
+      stubRect(document.querySelector(selector)!, {
+        left,
+        top,
+        width: 80,
+        height: 32,
+      });
+    place('[data-testid="1001-follow"]', 400, 100);
+    place('[data-testid="reply"]', 100, 300);
+    place('[data-testid="1004-unfollow"]', 100, 400);
+    place('[data-testid="1005-follow"]', 100, 500);
+  });
+
+  it("prefers the control matching the handle", () => {
+    const el = findGlobalVisibleFollow("@alice", 300, 200);
+
+    expect(el?.getAttribute("data-testid")).toBe("1001-follow");
+  });
+
+  it("picks the nearest follow-like control without a handle", () => {
+    const el = findGlobalVisibleFollow(undefined, 150, 530);
+
+    expect(el?.getAttribute("data-testid")).toBe("1005-follow");
+  });
+
+  it("rejects candidates too far from the given point", () => {
+    expect(findGlobalVisibleFollow(undefined, 1000, 1000)).toBeNull();
+  });
+
+  it("ignores invisible elements", () => {
+    document.body.innerHTML = readFixture("hover-card.html");
+
+    expect(findGlobalVisibleFollow("@alice")).toBeNull();
+  });
+});
+
+describe("looksLikeFollow", () => {
+  beforeEach(() => {
+    loadFixture("hover-card.html");
+  });
+
+  it("accepts follow controls", () => {
+    const el = document.querySelector<HTMLElement>('[data-testid="1001-follow"]');
+
+    expect(looksLikeFollow(el)).toBe(true);
+  });
+
+  it("rejects following and unrelated controls", () => {
+    const following = document.querySelector<HTMLElement>('[data-testid="1004-unfollow"]');
+    const reply = document.querySelector<HTMLElement>('[data-testid="reply"]');
+
+    expect(looksLikeFollow(following)).toBe(false);
+    expect(looksLikeFollow(reply)).toBe(false);
+    expect(looksLikeFollow(null)).toBe(false);
+  });
+});
+
+describe("monitorRateLimits", () => {
+  let observer: MutationObserver;
+
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    vi.useFakeTimers();
+    document.body.innerHTML = "";
+  });
+
+  afterEach(() => {
+    observer?.disconnect();
+    vi.useRealTimers();
+  });
+
+  const showToast = async (fixture: string) => {
+    const container = document.createElement("div");
+    container.innerHTML = readFixture(fixture);
+    document.body.appendChild(container);
+    await vi.advanceTimersByTimeAsync(0);
+  };
+
+  it("reports a limit toast to the background", async () => {
+    const sendMessage = vi.spyOn(fakeBrowser.runtime, "sendMessage");
+    observer = monitorRateLimits();
+
+    await showToast("toast.html");
+
+    expect(sendMessage).toHaveBeenCalledWith({ v: PROTOCOL_VERSION, type: "RATE_LIMIT_REACHED" });
+  });
+
+  it("ignores unrelated toasts", async () => {
+    const sendMessage = vi.spyOn(fakeBrowser.runtime, "sendMessage");
+    observer = monitorRateLimits();
+
+    await showToast("toast-info.html");
+
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("readFollowsBack", () => {
+  beforeEach(() => {
+    useSelectorPack(DEFAULT_SELECTOR_PACK);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    history.replaceState(null, "", "/");
+    vi.useRealTimers();
+  });
+
+  it("reads the indicator on the user's profile", async () => {
+    history.replaceState(null, "", "/alice");
+    loadFixture("profile.html");
+
+    expect(await readFollowsBack("@alice")).toBe(true);
+  });
+
+  it("reads the indicator from an open hover card", async () => {
+    loadFixture("hover-card.html");
+
+    expect(await readFollowsBack("@alice")).toBe(false);
+  });
+
+  it("gives up when the profile never renders", async () => {
+    history.replaceState(null, "", "/bob");
+    loadFixture("profile.html");
+
+    const result = readFollowsBack("@bob", 2000);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await result).toBeNull();
+  });
+});
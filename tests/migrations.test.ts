@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { MIGRATIONS, runMigrations, type Migration } from "../utils/migrations";
+import { getFollowRecord, getSchemaVersion, getSettings, repairStorage } from "../utils/storage";
+
+describe("runMigrations", () => {
+  const migration = (version: number, migrate = vi.fn(async () => { })): Migration => ({
+    version,
+    description: `step ${version}`,
+    migrate,
+  });
+
+  it("runs the pending migrations in order and records the version", async () => {
+    const order: number[] = [];
+    const steps = [3, 1, 2].map((v) => migration(v, vi.fn(async () => { order.push(v); })));
+
+    expect(await runMigrations(steps)).toBe(3);
+    expect(order).toEqual([1, 2, 3]);
+    expect(await getSchemaVersion()).toBe(3);
+  });
+
+  it("skips migrations that already ran", async () => {
+    await fakeBrowser.storage.local.set({ schemaVersion: 1 });
+    const first = migration(1);
+    const second = migration(2);
+
+    await runMigrations([first, second]);
+
+    expect(first.migrate).not.toHaveBeenCalled();
+    expect(second.migrate).toHaveBeenCalledOnce();
+  });
+
+  it("stops at a failed migration so it is retried", async () => {
+    const later = migration(3);
+    const steps = [migration(1), migration(2, vi.fn(async () => { throw new Error("boom"); })), later];
+
+    expect(await runMigrations(steps)).toBe(1);
+    expect(later.migrate).not.toHaveBeenCalled();
+    expect(await getSchemaVersion()).toBe(1);
+  });
+
+  it("brings data of the first release up to date", async () => {
+    await fakeBrowser.storage.local.set({
+      followedUsers: ["@alice"],
+      settings: { minDelay: 2000, maxDelay: 4000, rateLimitThreshold: 10, rateLimitDuration: 600000, dailyFollowLimit: "100" },
+      recentFollows: "none",
+    });
+
+    expect(await runMigrations()).toBe(MIGRATIONS.length);
+
+    expect(await getFollowRecord("@alice")).not.toBeNull();
+    const stored = await fakeBrowser.storage.local.get(null);
+    expect(stored.recentFollows).toBeUndefined();
+    expect(stored.settings).not.toHaveProperty("rateLimitDuration");
+    expect(await getSettings()).toMatchObject({ minDelay: 2000, backoffBase: 600000, dailyFollowLimit: 100 });
+  });
+});
+
+describe("repairStorage", () => {
+  it("removes invalid values in every account and leaves unknown keys", async () => {
+    await fakeBrowser.storage.local.set({
+      "account:@me:dailyStats": { today: null },
+      "account:@me:followed:@alice": { handle: "@alice" },
+      "account:@me:recentFollows": [1, 2],
+      somethingElse: 5,
+    });
+
+    expect(await repairStorage()).toEqual(["account:@me:dailyStats", "account:@me:followed:@alice"]);
+    expect(Object.keys(await fakeBrowser.storage.local.get(null)).sort()).toEqual([
+      "account:@me:recentFollows",
+      "somethingElse",
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { noticeText, runNotices, showNotice, type RunSnapshot } from "../utils/notifications";
+import { updateSettings } from "../utils/storage";
+
+const run = (overrides: Partial<RunSnapshot> = {}): RunSnapshot => ({
+  status: "running",
+  remaining: 2,
+  processed: 3,
+  success: 3,
+  ...overrides,
+});
+
+describe("runNotices", () => {
+  it("reports rate-limit pauses starting and ending", () => {
+    expect(runNotices(run(), run({ status: "rate_limited" }))).toEqual(["rate_limit_start"]);
+    expect(runNotices(run({ status: "rate_limited" }), run())).toEqual(["rate_limit_end"]);
+  });
+
+  it("reports the daily limit once", () => {
+    const limited = run({ status: "daily_limit_reached" });
+
+    expect(runNotices(run(), limited)).toEqual(["daily_limit"]);
+    expect(runNotices(limited, limited)).toEqual([]);
+  });
+
+  it("reports a run whose queue ran empty", () => {
+    expect(runNotices(run({ remaining: 1 }), run({ remaining: 0, processed: 4 }))).toEqual(["run_complete"]);
+    // Stopped by the user
+    expect(runNotices(run({ remaining: 1 }), run({ status: "stopped", remaining: 0 }))).toEqual([]);
+  });
+
+  it("has nothing to compare the first state with", () => {
+    expect(runNotices(null, run({ status: "rate_limited" }))).toEqual([]);
+  });
+});
+
+describe("showNotice", () => {
+  let create: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    create = vi.fn(async () => "id");
+    vi.spyOn(fakeBrowser.notifications, "create").mockImplementation(create);
+  });
+
+  it("stays quiet unless notifications are switched on", async () => {
+    await showNotice("run_complete", noticeText("run_complete", run()));
+    expect(create).not.toHaveBeenCalled();
+
+    await updateSettings({ notifications: true });
+    await showNotice("run_complete", noticeText("run_complete", run({ success: 2 })));
+
+    expect(create).toHaveBeenCalledWith("xfollow:run", expect.objectContaining({
+      title: "Run finished",
+      message: "2 of 3 users followed",
+    }));
+  });
+
+  it("replaces the X limit warning with the pause it starts", async () => {
+    await updateSettings({ notifications: true });
+
+    await showNotice("x_limit", noticeText("x_limit", run()));
+    await showNotice("rate_limit_start", noticeText("rate_limit_start", run(), Date.now()));
+
+    expect(create.mock.calls.map(([id]) => id)).toEqual(["xfollow:rate-limit", "xfollow:rate-limit"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp, nextTick, type App as VueApp } from "vue";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import App from "../entrypoints/popup/App.vue";
+import { countAt } from "../utils/analytics";
+import { LOCAL_MIDNIGHT } from "../utils/clock";
+import { setActiveAccount, setAnalytics } from "../utils/storage";
+
+// Lets storage reads and the re-render after them settle
+const settle = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await nextTick();
+  }
+};
+
+const button = (root: HTMLElement, text: string) => {
+  const found = Array.from(root.querySelectorAll("button")).find((b) => b.textContent?.includes(text));
+  if (!found) throw new Error(`No button "${text}"`);
+  return found;
+};
+
+describe("popup", () => {
+  let app: VueApp | null = null;
+
+  afterEach(() => {
+    app?.unmount();
+    app = null;
+  });
+
+  it("reads the account summaries on open and on account changes, not every second", async () => {
+    vi.spyOn(fakeBrowser.runtime, "sendMessage").mockRejectedValue(new Error("No background"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await setActiveAccount("@me");
+    const get = vi.spyOn(fakeBrowser.storage.local, "get");
+    const scans = () => get.mock.calls.filter((args: unknown[]) => args[0] === null).length;
+
+    const root = document.createElement("div");
+    document.body.appendChild(root);
+    app = createApp(App);
+    app.mount(root);
+    await settle();
+    expect(scans()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await settle();
+    expect(scans()).toBe(1);
+
+    await setActiveAccount("@other");
+    await settle();
+    expect(scans()).toBe(2);
+    expect(root.textContent).toContain("@other");
+  });
+
+  it("opens the stats view with its charts from the settings", async () => {
+    // No background answers in tests
+    vi.spyOn(fakeBrowser.runtime, "sendMessage").mockRejectedValue(new Error("No background"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await setAnalytics(countAt([], "succeeded", Date.now(), LOCAL_MIDNIGHT, 30));
+
+    const root = document.createElement("div");
+    document.body.appendChild(root);
+    app = createApp(App);
+    app.mount(root);
+    await settle();
+
+    button(root, "Settings").click();
+    await settle();
+    button(root, "View Daily Stats History").click();
+    await settle();
+
+    expect(root.querySelector(".stats-panel")).not.toBeNull();
+    expect(root.querySelector("svg.sparkline path.sparkline-line")?.getAttribute("d")).toMatch(/^M0,/);
+    expect(root.querySelectorAll("svg.bar-chart rect")).toHaveLength(24);
+
+    button(root, "Back").click();
+    await settle();
+    expect(root.querySelector(".stats-panel")).toBeNull();
+    expect(root.querySelector(".settings-panel")).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { createProfile, PROFILE_PRESETS, renameProfile } from "../utils/profiles";
+import {
+  activateProfile,
+  deleteProfile,
+  getActiveProfile,
+  getProfiles,
+  getSettings,
+  setActiveAccount,
+  updateSettings,
+} from "../utils/storage";
+import { validateSettings } from "../utils/schema";
+
+describe("profiles", () => {
+  it("ships valid presets", async () => {
+    const settings = await getSettings();
+    for (const preset of PROFILE_PRESETS) {
+      expect(validateSettings({ ...settings, ...preset.settings })).toEqual([]);
+    }
+  });
+
+  it("creates a profile from the current settings or a preset", async () => {
+    await updateSettings({ timeZone: "Europe/Paris" });
+
+    const current = await createProfile("Mine");
+    expect(current.settings.timeZone).toBe("Europe/Paris");
+
+    const events = await createProfile("Events", "events");
+    expect(events.settings.runScope).toBe("collect");
+    expect(events.settings.dailyFollowLimit).toBe(200);
+    expect(events.settings.timeZone).toBe("Europe/Paris");
+    expect((await getProfiles()).map((p) => p.name)).toEqual(["Mine", "Events"]);
+  });
+
+  it("gives clashing names a number", async () => {
+    await createProfile("Mine");
+    const second = await createProfile(" Mine ");
+    expect(second.name).toBe("Mine 2");
+
+    await renameProfile(second.id, "Mine");
+    expect((await getProfiles()).map((p) => p.name)).toEqual(["Mine", "Mine 2"]);
+    await expect(createProfile("  ")).rejects.toThrow("empty");
+  });
+
+  it("applies a profile and keeps later edits in it", async () => {
+    const slow = await createProfile("Slow", "conservative");
+    await activateProfile(slow.id);
+    expect((await getSettings()).minDelay).toBe(4000);
+
+    await updateSettings({ minDelay: 5000 });
+    expect((await getActiveProfile())?.settings.minDelay).toBe(5000);
+
+    await deleteProfile(slow.id);
+    expect(await getActiveProfile()).toBeNull();
+    expect((await getSettings()).minDelay).toBe(5000);
+  });
+
+  it("remembers the active profile per account", async () => {
+    const slow = await createProfile("Slow", "conservative");
+    const fast = await createProfile("Fast", "events");
+
+    await setActiveAccount("@me");
+    await activateProfile(slow.id);
+    await setActiveAccount("@other");
+    expect(await getActiveProfile()).toBeNull();
+    await activateProfile(fast.id);
+
+    await setActiveAccount("@me");
+    expect((await getActiveProfile())?.id).toBe(slow.id);
+  });
+
+  it("rejects unknown profiles and presets", async () => {
+    await expect(activateProfile("missing")).rejects.toThrow("Unknown profile");
+    await expect(createProfile("Mine", "missing")).rejects.toThrow("Unknown preset");
+  });
+});
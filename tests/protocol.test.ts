@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import {
+  BACKGROUND_SCHEMA,
+  CONTENT_SCHEMA,
+  listen,
+  parseEnvelope,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  requestBackground,
+  requestTab,
+  serve,
+} from "../utils/protocol";
+
+// Delivers like the browser does: the answer is what a listener passes to sendResponse
+const deliver = (message: unknown, sender: object = {}) =>
+  new Promise((resolve) => {
+    fakeBrowser.runtime.onMessage.trigger(message, sender, resolve);
+  });
+
+describe("parseEnvelope", () => {
+  it("leaves messages of other schemas to other listeners", () => {
+    expect(parseEnvelope(BACKGROUND_SCHEMA, { v: PROTOCOL_VERSION, type: "EXECUTE_FOLLOW" })).toBeNull();
+    expect(parseEnvelope(BACKGROUND_SCHEMA, "GET_STATUS")).toBeNull();
+    expect(parseEnvelope(BACKGROUND_SCHEMA, { v: PROTOCOL_VERSION, type: "toString" })).toBeNull();
+  });
+
+  it("refuses another protocol version", () => {
+    expect(parseEnvelope(BACKGROUND_SCHEMA, { type: "GET_STATUS" })).toEqual({
+      ok: false,
+      error: `GET_STATUS uses protocol version undefined, expected ${PROTOCOL_VERSION}`,
+    });
+  });
+
+  it.each([
+    ["ROUTE_CHANGED", { sessionUrl: 5 }],
+    ["CANDIDATES_FOUND", { users: [{ displayName: "no handle" }] }],
+    ["START_FOLLOW", { handles: "@alice" }],
+    ["GET_STATUS", { unexpected: true }],
+  ])("refuses %s with %j", (type, data) => {
+    expect(parseEnvelope(BACKGROUND_SCHEMA, { v: PROTOCOL_VERSION, type, data })).toEqual({
+      ok: false,
+      error: `${type} has invalid data`,
+    });
+  });
+
+  it("accepts well-formed messages", () => {
+    const message = { v: PROTOCOL_VERSION, type: "EXECUTE_FOLLOW", data: { handle: "@alice" } };
+    expect(parseEnvelope(CONTENT_SCHEMA, message)).toEqual({ ok: true, envelope: message });
+  });
+});
+
+describe("serve and requestBackground", () => {
+  let handlers: any;
+
+  beforeEach(() => {
+    handlers = Object.fromEntries(Object.keys(BACKGROUND_SCHEMA).map((type) => [type, vi.fn()]));
+    vi.spyOn(fakeBrowser.runtime, "sendMessage").mockImplementation((message: unknown) =>
+      deliver(message, { tab: { id: 4 } })
+    );
+  });
+
+  it("answers a request with the handler's result", async () => {
+    handlers.START_FOLLOW.mockResolvedValue({ status: "started" });
+    serve(BACKGROUND_SCHEMA, handlers);
+
+    await expect(requestBackground("START_FOLLOW", { handles: ["@alice"] })).resolves.toEqual({ status: "started" });
+    expect(handlers.START_FOLLOW).toHaveBeenCalledWith({ handles: ["@alice"] }, { tab: { id: 4 } });
+  });
+
+  it("rejects with a ProtocolError when the handler fails", async () => {
+    handlers.STOP_FOLLOW.mockRejectedValue(new Error("storage is full"));
+    serve(BACKGROUND_SCHEMA, handlers);
+
+    const request = requestBackground("STOP_FOLLOW");
+    await expect(request).rejects.toBeInstanceOf(ProtocolError);
+    await expect(request).rejects.toThrow("STOP_FOLLOW failed: storage is full");
+  });
+
+  it("holds requests until ready", async () => {
+    let restore!: () => void;
+    const ready = new Promise<void>((resolve) => (restore = resolve));
+    handlers.GET_BACKLOG.mockReturnValue(null);
+    serve(BACKGROUND_SCHEMA, handlers, { ready });
+
+    const request = requestBackground("GET_BACKLOG");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(handlers.GET_BACKLOG).not.toHaveBeenCalled();
+
+    restore();
+    await expect(request).resolves.toBeNull();
+  });
+
+  it("stops answering once unsubscribed", async () => {
+    const stop = serve(BACKGROUND_SCHEMA, handlers);
+    stop();
+
+    expect(fakeBrowser.runtime.onMessage.hasListeners()).toBe(false);
+  });
+});
+
+describe("requestTab", () => {
+  it("rejects with a ProtocolError when nobody answers", async () => {
+    vi.spyOn(fakeBrowser.tabs, "sendMessage").mockResolvedValue(undefined);
+
+    await expect(requestTab(2, "GET_CANDIDATES")).rejects.toThrow(new ProtocolError("No answer to GET_CANDIDATES"));
+  });
+});
+
+describe("listen", () => {
+  it("receives events next to a server and ignores requests", async () => {
+    const usersUpdated = vi.fn();
+    listen({ USERS_UPDATED: usersUpdated });
+    serve(BACKGROUND_SCHEMA, {} as any);
+
+    const results = await fakeBrowser.runtime.onMessage.trigger(
+      { v: PROTOCOL_VERSION, type: "USERS_UPDATED", data: { count: 3 } },
+      {},
+      () => { }
+    );
+    await fakeBrowser.runtime.onMessage.trigger({ v: PROTOCOL_VERSION, type: "GET_STATUS" }, {}, () => { });
+
+    // Neither listener keeps the channel open for an event
+    expect(results).toEqual([undefined, undefined]);
+    expect(usersUpdated).toHaveBeenCalledExactlyOnceWith({ count: 3 }, {});
+  });
+});
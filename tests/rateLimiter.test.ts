@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { backoffDelay, SlidingWindowLimiter, type RateWindow } from "../utils/rateLimiter";
+
+const WINDOWS: RateWindow[] = [
+  { id: "short", label: "minute", durationMs: 60_000, limit: 2 },
+  { id: "long", label: "hour", durationMs: 3_600_000, limit: 3 },
+  { id: "off", label: "day", durationMs: 86_400_000, limit: 0 },
+];
+
+describe("SlidingWindowLimiter", () => {
+  it("has room until a window is full", () => {
+    const limiter = new SlidingWindowLimiter(WINDOWS, [1000]);
+
+    expect(limiter.binding(2000)).toBeNull();
+    expect(limiter.usage(2000).map((w) => w.used)).toEqual([1, 1, 1]);
+  });
+
+  it("reports when the oldest follows leave a full window", () => {
+    const limiter = new SlidingWindowLimiter(WINDOWS, [1000, 5000]);
+
+    expect(limiter.binding(10_000)).toMatchObject({ id: "short", used: 2, availableAt: 61_000 });
+    expect(limiter.binding(61_000)).toBeNull();
+  });
+
+  it("picks the window that holds the next follow back the longest", () => {
+    const limiter = new SlidingWindowLimiter(WINDOWS, [0, 100_000, 200_000]);
+    limiter.record(210_000);
+
+    expect(limiter.binding(220_000)).toMatchObject({ id: "long", availableAt: 3_700_000 });
+  });
+
+  it("forgets follows older than the longest window", () => {
+    const limiter = new SlidingWindowLimiter(WINDOWS, [0]);
+    limiter.record(86_400_000 + 1);
+
+    expect(limiter.getTimestamps()).toEqual([86_400_000 + 1]);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles up to the max", () => {
+    const options = { baseMs: 1000, maxMs: 5000 };
+
+    expect([1, 2, 3, 4].map((level) => backoffDelay(level, options))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from "vitest";
+import { sessionUrl, watchRoute } from "../utils/route";
+
+describe("sessionUrl", () => {
+  it.each([
+    ["https://x.com/op/status/100", "https://x.com/op/status/100"],
+    ["https://x.com/op/status/100/photo/1?s=20", "https://x.com/op/status/100"],
+    ["https://x.com/someone", "https://x.com/someone"],
+    ["https://x.com/home#top", "https://x.com/home"],
+  ])("keys %s as %s", (href, key) => {
+    expect(sessionUrl(href)).toBe(key);
+  });
+});
+
+describe("watchRoute", () => {
+  it("reports navigations made through the history API", async () => {
+    const callback = vi.fn();
+    const route = watchRoute(callback);
+
+    history.pushState({}, "", "/op/status/100");
+    document.body.appendChild(document.createElement("div"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    history.pushState({}, "", "/home");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    route.disconnect();
+
+    expect(callback.mock.calls).toEqual([
+      [`${location.origin}/op/status/100`],
+      [`${location.origin}/home`],
+    ]);
+  });
+});
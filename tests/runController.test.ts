@@ -0,0 +1,493 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CandidateUser } from "../utils/detector";
+import { setEventSink, type ActivityEvent } from "../utils/eventLog";
+import { DEFAULT_FILTER_RULES } from "../utils/filters";
+import type { FollowResult } from "../utils/followQueue";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { createProfile } from "../utils/profiles";
+import { PROTOCOL_VERSION } from "../utils/protocol";
+import { executeInTab, RunController, type FollowExecutor } from "../utils/runController";
+import {
+  activateProfile,
+  getAnalytics,
+  getDailyStats,
+  getDryRunReport,
+  getFollowRecord,
+  getRateLimitState,
+  getRecentFollows,
+  getRunState,
+  markAsFollowed,
+  setActiveAccount,
+  setRateLimitState,
+  updateSettings,
+} from "../utils/storage";
+
+const THREAD = "https://x.com/op_author/status/100";
+
+const candidate = (handle: string, extra: Partial<CandidateUser> = {}): CandidateUser => ({
+  handle,
+  displayName: handle.slice(1),
+  isVerified: true,
+  badgeType: "blue",
+  surface: "thread",
+  sourceUrl: THREAD,
+  ...extra,
+});
+
+describe("RunController", () => {
+  let controller: RunController;
+  let executor: ReturnType<typeof vi.fn<FollowExecutor>>;
+
+  const createController = async (
+    execute: FollowExecutor = async () => ({ outcome: "followed" })
+  ) => {
+    executor = vi.fn<FollowExecutor>(execute);
+    const c = new RunController({ executor });
+    await c.init();
+    return c;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 0, 1, 12, 0, 0));
+    await updateSettings({ minDelay: 10, maxDelay: 20 });
+  });
+
+  afterEach(async () => {
+    await controller?.stop();
+    vi.useRealTimers();
+  });
+
+  it("queues eligible candidates and records skips", async () => {
+    await updateSettings({
+      filterRules: { ...DEFAULT_FILTER_RULES, denyHandles: ["@bob"] },
+    });
+    await markAsFollowed({
+      handle: "@carol",
+      displayName: "carol",
+      sourceUrl: THREAD,
+      outcome: "followed",
+      runId: "earlier",
+    });
+    controller = await createController();
+
+    await controller.start(1, [candidate("@alice"), candidate("@bob"), candidate("@carol")]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(executor).toHaveBeenCalledOnce();
+    expect(controller.getStatus()).toMatchObject({
+      total: 1,
+      skippedCount: 2,
+      skippedByRule: { denylist: 1, alreadyFollowed: 1 },
+    });
+    expect(controller.getSkipped().map((s) => s.handle)).toEqual(["@bob", "@carol"]);
+  });
+
+  it("counts skipped users apart from attempted follows", async () => {
+    await updateSettings({
+      filterRules: { ...DEFAULT_FILTER_RULES, denyHandles: ["@bob"] },
+    });
+    await markAsFollowed({
+      handle: "@carol",
+      displayName: "carol",
+      sourceUrl: THREAD,
+      outcome: "followed",
+      runId: "earlier",
+    });
+    const outcomes: Record<string, FollowResult> = {
+      "@alice": { outcome: "followed" },
+      "@dave": { outcome: "already_following" },
+      "@erin": { outcome: "no_effect", detail: "Button still reads Follow" },
+    };
+    controller = await createController(async (_tabId, pending) => outcomes[pending.handle]);
+
+    await controller.start(1, ["@alice", "@bob", "@carol", "@dave", "@erin"].map((h) => candidate(h)));
+    await vi.advanceTimersByTimeAsync(100);
+
+    const [day] = await getAnalytics();
+    expect(day.totals).toMatchObject({ attempted: 2, succeeded: 1, failed: 1, skipped: 3 });
+  });
+
+  it("logs filtered, queued and verified users", async () => {
+    const events: ActivityEvent[] = [];
+    setEventSink((e) => events.push(e));
+    await updateSettings({
+      filterRules: { ...DEFAULT_FILTER_RULES, denyHandles: ["@bob"] },
+    });
+    controller = await createController(async (_tabId, pending) =>
+      pending.handle === "@alice" ? { outcome: "followed" } : { outcome: "no_effect", detail: "Button still reads Follow" }
+    );
+
+    await controller.start(1, [candidate("@alice"), candidate("@bob"), candidate("@carol")]);
+    await vi.advanceTimersByTimeAsync(100);
+    setEventSink(null);
+
+    expect(events.map((e) => [e.type, e.handle])).toEqual([
+      ["queued", "@alice"],
+      ["filtered", "@bob"],
+      ["queued", "@carol"],
+      ["verified", "@alice"],
+      ["failed", "@carol"],
+    ]);
+    expect(events[4]).toMatchObject({ message: "Button still reads Follow", data: { outcome: "no_effect" } });
+  });
+
+  it("executes follows in the run's tab and records history", async () => {
+    controller = await createController();
+    const enqueuedAt = Date.now();
+
+    await controller.start(7, [candidate("@alice")]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(executor).toHaveBeenCalledWith(7, {
+      handle: "@alice",
+      displayName: "alice",
+      sourceUrl: THREAD,
+      enqueuedAt,
+      rules: [],
+      surface: "thread",
+      badgeType: "blue",
+    });
+    const record = await getFollowRecord("@alice");
+    expect(record).toMatchObject({ outcome: "followed", sourceUrl: THREAD, surface: "thread", badgeType: "blue" });
+    expect(controller.getStatus()).toMatchObject({ processed: 1, success: 1 });
+    const [day] = await getAnalytics();
+    expect(day.totals).toMatchObject({ attempted: 1, succeeded: 1, failed: 0 });
+    expect(day.hours.succeeded[12]).toBe(1);
+  });
+
+  it("ignores candidates from other tabs and already evaluated handles", async () => {
+    controller = await createController();
+    await controller.start(1, [candidate("@alice")]);
+
+    await controller.addCandidates(2, [candidate("@bob")]);
+    await controller.addCandidates(1, [candidate("@alice"), candidate("@carol")]);
+
+    expect(controller.getStatus().total).toBe(2);
+  });
+
+  it("only queues the selected handles, including ones detected later", async () => {
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(1, [candidate("@alice"), candidate("@bob")], { selection: ["@Bob", "@carol"] });
+
+    await controller.addCandidates(1, [candidate("@carol"), candidate("@dave")]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect((await getRunState())?.pending.map((p) => p.handle)).toEqual(["@bob", "@carol"]);
+    expect(controller.getSkipped()).toEqual([]);
+  });
+
+  it("restores a persisted run after the worker restarts", async () => {
+    // The first follow never completes, as if the worker was suspended mid-run
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(3, [candidate("@alice"), candidate("@bob")]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const state = await getRunState();
+    expect(state?.tabId).toBe(3);
+    expect(state?.pending.map((p) => p.handle)).toEqual(["@alice", "@bob"]);
+
+    const restored = await createController();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(restored.getRunTabId()).toBe(3);
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(executor).toHaveBeenCalledWith(3, expect.objectContaining({ handle: "@bob" }));
+    expect(restored.getStatus()).toMatchObject({ processed: 2, success: 2 });
+    await restored.stop();
+  });
+
+  it("restores a dry run without clearing a real run's cooldown", async () => {
+    await updateSettings({ dryRun: true });
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(3, [candidate("@alice")]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const cooldown = { pauseUntil: Date.now() + 600_000, reason: "backoff" as const };
+    await setRateLimitState(cooldown);
+    const restored = await createController(() => new Promise(() => {}));
+
+    expect(restored.getStatus()).toMatchObject({ dryRun: true, status: "running" });
+    expect(await getRateLimitState()).toEqual(cooldown);
+    await restored.stop();
+  });
+
+  it("restores a paused run as paused and resumes it", async () => {
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(3, [candidate("@alice"), candidate("@bob")]);
+    controller.pause();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const restored = await createController();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(restored.getStatus().status).toBe("paused");
+    expect(executor).not.toHaveBeenCalled();
+
+    restored.resume();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(executor).toHaveBeenCalledTimes(2);
+    await restored.stop();
+  });
+
+  it("keeps each account's run while another account is active", async () => {
+    await setActiveAccount("@me");
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(3, [candidate("@alice"), candidate("@bob")]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await controller.suspend();
+    await setActiveAccount("@other");
+    await controller.init();
+    expect(controller.hasRun()).toBe(false);
+    expect(await getRunState()).toBeNull();
+
+    await controller.suspend();
+    await setActiveAccount("@me");
+    await controller.init();
+    expect(controller.getRunTabId()).toBe(3);
+    expect(controller.getStatus()).toMatchObject({ status: "paused", remaining: 2 });
+  });
+
+  it("records the profile the run was started with", async () => {
+    const profile = await createProfile("Slow", "conservative");
+    await activateProfile(profile.id);
+    await updateSettings({ minDelay: 10, maxDelay: 20 });
+    controller = await createController();
+    await controller.start(1, [candidate("@alice")]);
+
+    expect(controller.getStatus().profile).toBe("Slow");
+    expect((await getRunState())?.profile).toEqual({ id: profile.id, name: "Slow" });
+
+    // The follow keeps it once the run is gone
+    await vi.advanceTimersByTimeAsync(100);
+    await controller.stop();
+    expect((await getFollowRecord("@alice"))?.profile).toEqual({ id: profile.id, name: "Slow" });
+  });
+
+  it("records a follow finishing after a switch for the run's account", async () => {
+    await setActiveAccount("@me");
+    let finish: (result: FollowResult) => void = () => {};
+    controller = await createController(() => new Promise((resolve) => (finish = resolve)));
+    await controller.start(3, [candidate("@alice")]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await controller.suspend();
+    await setActiveAccount("@other");
+    await controller.init();
+    finish({ outcome: "followed" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await getFollowRecord("@alice")).toBeNull();
+    expect((await getDailyStats()).today.count).toBe(0);
+    expect(await getRecentFollows()).toEqual([]);
+    expect(await getAnalytics()).toEqual([]);
+
+    await setActiveAccount("@me");
+    expect(await getFollowRecord("@alice")).toMatchObject({ outcome: "followed" });
+    expect((await getDailyStats()).today.count).toBe(1);
+    expect(await getRecentFollows()).toHaveLength(1);
+    expect((await getAnalytics())[0].totals).toMatchObject({ attempted: 1, succeeded: 1 });
+  });
+
+  it("dedupes against its own account's history when the active account changes", async () => {
+    await setActiveAccount("@me");
+    await markAsFollowed({ handle: "@carol", displayName: "carol", sourceUrl: THREAD, outcome: "followed", runId: "earlier" }, "@other");
+    await markAsFollowed({ handle: "@dave", displayName: "dave", sourceUrl: THREAD, outcome: "followed", runId: "earlier" }, "@me");
+    controller = await createController();
+    await controller.start(1, [candidate("@alice")]);
+
+    // Another tab switched accounts before the run was suspended
+    await setActiveAccount("@other");
+    await controller.addCandidates(1, [candidate("@carol"), candidate("@dave")]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(executor.mock.calls.map(([, pending]) => pending.handle)).toEqual(["@alice", "@carol"]);
+    expect(controller.getSkipped().map((s) => [s.handle, s.rule])).toEqual([["@dave", "alreadyFollowed"]]);
+    expect(await getFollowRecord("@carol", "@me")).toMatchObject({ outcome: "followed" });
+    expect((await getDailyStats("@me")).today.count).toBe(2);
+    expect(await getAnalytics("@other")).toEqual([]);
+  });
+
+  it("clears the run state when stopped", async () => {
+    controller = await createController();
+    await controller.start(1, [candidate("@alice")]);
+
+    await controller.stop();
+
+    expect(await getRunState()).toBeNull();
+    expect(controller.getRunTabId()).toBeNull();
+    expect(controller.getStatus().remaining).toBe(0);
+  });
+
+  it("keeps a closed tab's pending follows as a backlog another tab can resume", async () => {
+    // The follow in flight when the tab closes fails a second later
+    controller = await createController(
+      (tabId) => new Promise((resolve) => setTimeout(() => resolve({ outcome: tabId === 1 ? "error" : "followed" }), 1000))
+    );
+    await controller.start(1, [candidate("@alice"), candidate("@bob")]);
+
+    await controller.handleTabClosed(1);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(controller.getStatus().status).toBe("paused");
+    expect(controller.getBacklog()).toMatchObject({ pending: 1 });
+    expect((await getRunState())?.tabId).toBeNull();
+
+    controller.resume();
+    expect(controller.getStatus().status).toBe("paused");
+
+    controller.resume(5);
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(controller.getBacklog()).toBeNull();
+    expect(controller.getRunTabId()).toBe(5);
+    expect(executor).toHaveBeenLastCalledWith(5, expect.objectContaining({ handle: "@bob" }));
+  });
+
+  it("pauses a thread-scoped run while its tab is on another page", async () => {
+    const OTHER = "https://x.com/someone/status/200";
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(1, [candidate("@alice")], { sessionUrl: THREAD });
+
+    await controller.addCandidates(1, [candidate("@bob", { sourceUrl: OTHER })]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect((await getRunState())?.pending.map((p) => p.handle)).toEqual(["@alice"]);
+
+    controller.handleRouteChange(1, OTHER);
+    expect(controller.getStatus()).toMatchObject({ status: "paused", routePaused: true });
+
+    controller.handleRouteChange(1, "https://x.com/home");
+    controller.handleRouteChange(1, THREAD);
+    expect(controller.getStatus()).toMatchObject({ status: "running", routePaused: false });
+  });
+
+  it("keeps collecting across pages when the run scope is collect", async () => {
+    const OTHER = "https://x.com/someone/status/200";
+    await updateSettings({ runScope: "collect" });
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(1, [candidate("@alice")], { sessionUrl: THREAD });
+
+    controller.handleRouteChange(1, OTHER);
+    await controller.addCandidates(1, [candidate("@bob", { sourceUrl: OTHER })]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(controller.getStatus()).toMatchObject({ status: "running", scope: "collect" });
+    expect((await getRunState())?.pending.map((p) => p.handle)).toEqual(["@alice", "@bob"]);
+  });
+
+  it("holds a run outside the schedule and lets it go inside", async () => {
+    // 2025-01-01 is a Wednesday; the run is started at noon
+    await updateSettings({
+      schedule: { enabled: true, windows: [{ days: [3], startHour: 13, endHour: 14 }] },
+    });
+    controller = await createController();
+    await controller.start(1, [candidate("@alice"), candidate("@bob")]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(controller.getStatus()).toMatchObject({ status: "paused", schedulePaused: true });
+    expect(executor).not.toHaveBeenCalled();
+
+    vi.setSystemTime(new Date(2025, 0, 1, 13, 0, 0));
+    await controller.applySchedule();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(executor).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(new Date(2025, 0, 1, 14, 0, 0));
+    await controller.applySchedule();
+    expect(controller.getStatus()).toMatchObject({ status: "paused", schedulePaused: true });
+  });
+
+  it("backs off when its tab reports a rate limit, and later runs keep the cooldown", async () => {
+    await updateSettings({ backoffBase: 60_000 });
+    controller = await createController(() => new Promise(() => {}));
+    await controller.start(1, [candidate("@alice"), candidate("@bob")]);
+
+    expect(await controller.handleRateLimitDetected(2)).toBe(false);
+    expect(controller.getStatus().status).toBe("running");
+
+    expect(await controller.handleRateLimitDetected(1)).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(controller.getRunTabId()).toBe(1);
+    expect(controller.getStatus().status).toBe("rate_limited");
+    expect(controller.getRateLimitInfo()).toMatchObject({ reason: "backoff", pauseUntil: Date.now() + 60_000 });
+    expect((await getRunState())?.pending.map((p) => p.handle)).toEqual(["@alice", "@bob"]);
+
+    await controller.stop();
+    await controller.start(1, [candidate("@carol")]);
+    expect(controller.getStatus().status).toBe("rate_limited");
+  });
+
+  it("reports a dry run without recording follows, stats or limits", async () => {
+    await updateSettings({
+      dryRun: true,
+      rateWindows: [{ id: "15m", label: "15 min", durationMs: 900_000, limit: 1 }],
+      filterRules: { ...DEFAULT_FILTER_RULES, denyHandles: ["@bob"] },
+    });
+    controller = await createController(async (_tabId, pending) =>
+      pending.handle === "@carol"
+        ? { outcome: "hover_card_missing", detail: "Hover card did not open" }
+        : { outcome: "would_follow" }
+    );
+
+    await controller.start(1, [candidate("@alice"), candidate("@bob"), candidate("@carol"), candidate("@dave")]);
+    expect(await controller.handleRateLimitDetected(1)).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(executor.mock.calls.map(([, pending]) => [pending.handle, pending.dryRun])).toEqual([
+      ["@alice", true],
+      ["@carol", true],
+      ["@dave", true],
+    ]);
+    expect(controller.getStatus()).toMatchObject({ dryRun: true, processed: 3, success: 0 });
+    expect(await getFollowRecord("@alice")).toBeNull();
+    expect((await getDailyStats()).today.count).toBe(0);
+    expect(await getRecentFollows()).toEqual([]);
+    expect(await getRateLimitState()).toBeNull();
+    expect(await getAnalytics()).toEqual([]);
+
+    await controller.stop();
+    const report = await getDryRunReport();
+    expect(report?.wouldFollow.map((e) => e.handle)).toEqual(["@alice", "@dave"]);
+    expect(report?.skipped.map((r) => [r.handle, r.rule])).toEqual([["@bob", "denylist"]]);
+    expect(report?.unresolved).toMatchObject([{ handle: "@carol", outcome: "hover_card_missing" }]);
+  });
+});
+
+describe("executeInTab", () => {
+  const pending = { handle: "@alice", displayName: "alice", sourceUrl: THREAD, enqueuedAt: 0 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens the user's profile once when they are not on the page and returns", async () => {
+    const sendMessage = vi.spyOn(fakeBrowser.tabs, "sendMessage")
+      .mockResolvedValueOnce({ ok: true, data: { outcome: "button_not_found", notOnPage: true } })
+      .mockResolvedValueOnce({ ok: true, data: { outcome: "button_not_found", notOnPage: true } })
+      .mockResolvedValueOnce({ ok: true, data: { outcome: "followed" } });
+    vi.spyOn(fakeBrowser.tabs, "get").mockResolvedValue({ url: `${THREAD}/photo/1` } as any);
+    const update = vi.spyOn(fakeBrowser.tabs, "update").mockResolvedValue({} as any);
+
+    const result = executeInTab(3, pending);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await result).toEqual({ outcome: "followed" });
+    expect(update.mock.calls).toEqual([
+      [3, { url: "https://x.com/alice" }],
+      [3, { url: `${THREAD}/photo/1` }],
+    ]);
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+    expect(sendMessage).toHaveBeenLastCalledWith(3, { v: PROTOCOL_VERSION, type: "EXECUTE_FOLLOW", data: pending });
+  });
+
+  it("leaves the tab alone when the user is on the page", async () => {
+    vi.spyOn(fakeBrowser.tabs, "sendMessage").mockResolvedValue({ ok: true, data: { outcome: "followed" } });
+    const update = vi.spyOn(fakeBrowser.tabs, "update");
+
+    expect(await executeInTab(3, pending)).toEqual({ outcome: "followed" });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
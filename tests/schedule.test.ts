@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { isWithinSchedule, nextScheduleChange, type RunSchedule } from "../utils/schedule";
+
+const utc = (iso: string) => new Date(iso).getTime();
+
+// 2025-01-06 is a Monday
+const WEEKDAYS: RunSchedule = {
+  enabled: true,
+  windows: [{ days: [1, 2, 3, 4, 5], startHour: 9, endHour: 17 }],
+};
+
+describe("isWithinSchedule", () => {
+  it("is always open when the schedule is off", () => {
+    expect(isWithinSchedule(utc("2025-01-05T03:00:00Z"), { ...WEEKDAYS, enabled: false }, "UTC")).toBe(true);
+  });
+
+  it.each([
+    ["2025-01-06T08:59:00Z", false],
+    ["2025-01-06T09:00:00Z", true],
+    ["2025-01-06T16:59:00Z", true],
+    ["2025-01-06T17:00:00Z", false],
+    ["2025-01-05T12:00:00Z", false],
+  ])("%s is inside: %s", (iso, inside) => {
+    expect(isWithinSchedule(utc(iso), WEEKDAYS, "UTC")).toBe(inside);
+  });
+
+  it("reads hours in the configured time zone", () => {
+    // 09:30 in New York
+    expect(isWithinSchedule(utc("2025-01-06T14:30:00Z"), WEEKDAYS, "America/New_York")).toBe(true);
+    expect(isWithinSchedule(utc("2025-01-06T09:30:00Z"), WEEKDAYS, "America/New_York")).toBe(false);
+  });
+
+  it("runs windows past midnight into the next day", () => {
+    const nights: RunSchedule = { enabled: true, windows: [{ days: [5], startHour: 22, endHour: 2 }] };
+
+    expect(isWithinSchedule(utc("2025-01-10T23:00:00Z"), nights, "UTC")).toBe(true);
+    expect(isWithinSchedule(utc("2025-01-11T01:00:00Z"), nights, "UTC")).toBe(true);
+    expect(isWithinSchedule(utc("2025-01-11T02:00:00Z"), nights, "UTC")).toBe(false);
+  });
+});
+
+describe("nextScheduleChange", () => {
+  it("finds when the window closes and the next one opens", () => {
+    expect(nextScheduleChange(utc("2025-01-06T10:15:00Z"), WEEKDAYS, "UTC")).toBe(utc("2025-01-06T17:00:00Z"));
+    expect(nextScheduleChange(utc("2025-01-10T18:00:00Z"), WEEKDAYS, "UTC")).toBe(utc("2025-01-13T09:00:00Z"));
+  });
+
+  it("is null when nothing ever changes", () => {
+    expect(nextScheduleChange(0, { ...WEEKDAYS, enabled: false }, "UTC")).toBeNull();
+    expect(nextScheduleChange(0, { enabled: true, windows: [] }, "UTC")).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeSettings, STORAGE_SCHEMA, validateSettings } from "../utils/schema";
+
+describe("validateSettings", () => {
+  it("accepts partial settings", () => {
+    expect(validateSettings({ minDelay: 2000, filterRules: { denyHandles: ["@spam"] } })).toEqual([]);
+  });
+
+  it("reports one problem per field", () => {
+    expect(validateSettings({
+      minDelay: "fast",
+      dailyFollowLimit: 0,
+      dayResetHour: 24.5,
+      timeZone: "Mars/Olympus",
+      runScope: "everywhere",
+      filterRules: { badgeTypes: ["platinum"], maxFollowsPerThread: -1 },
+    })).toEqual([
+      { field: "minDelay", message: "must be a number" },
+      { field: "dailyFollowLimit", message: "must be a whole number of 1 or more" },
+      { field: "runScope", message: "must be thread or collect" },
+      { field: "dayResetHour", message: "must be a whole number from 0 to 23" },
+      { field: "timeZone", message: "must be a known time zone" },
+      { field: "filterRules.badgeTypes", message: "must be a list of badge types" },
+      { field: "filterRules.maxFollowsPerThread", message: "must be a whole number of 0 or more" },
+    ]);
+  });
+
+  it("checks fields against each other", () => {
+    expect(validateSettings({ minDelay: 5000, maxDelay: 1000 })).toEqual([
+      { field: "maxDelay", message: "must be at least the min delay" },
+    ]);
+    expect(validateSettings({ backoffBase: 2, backoffMax: 1 })).toEqual([
+      { field: "backoffBase", message: "must not be longer than the longest cooldown" },
+    ]);
+  });
+
+  it("checks every rate window and schedule window", () => {
+    const errors = validateSettings({
+      rateWindows: [{ id: "1h", label: "hour", durationMs: 3600000, limit: 2.5 }],
+      schedule: { enabled: true, windows: [{ days: [1], startHour: 9, endHour: 17 }, { days: [7], startHour: 9, endHour: 17 }] },
+    });
+
+    expect(errors).toEqual([
+      { field: "rateWindows", message: "the hour limit must be a whole number of 0 or more" },
+      { field: "schedule", message: "window 2 needs weekdays from 0 to 6 and hours from 0 to 24" },
+    ]);
+  });
+});
+
+describe("sanitizeSettings", () => {
+  it("keeps valid fields and drops invalid and unknown ones", () => {
+    expect(sanitizeSettings({
+      minDelay: 2000,
+      dailyFollowLimit: "lots",
+      rateLimitDuration: 600000,
+      filterRules: { denyHandles: ["@spam"], directRepliesOnly: "yes" },
+    })).toEqual({ minDelay: 2000, filterRules: { denyHandles: ["@spam"] } });
+  });
+
+  it("drops both fields of a failed relation", () => {
+    expect(sanitizeSettings({ minDelay: 5000, maxDelay: 1000, skipFollowed: false })).toEqual({ skipFollowed: false });
+  });
+
+  it("reads anything but an object as no settings", () => {
+    expect(sanitizeSettings("settings")).toEqual({});
+  });
+});
+
+describe("STORAGE_SCHEMA", () => {
+  it("checks the shape of stored values", () => {
+    expect(STORAGE_SCHEMA.dailyStats({ today: { date: "2025-01-01", count: 1 }, history: [] })).toBe(true);
+    expect(STORAGE_SCHEMA.dailyStats({ today: { date: "2025-01-01", count: "1" }, history: [] })).toBe(false);
+    expect(STORAGE_SCHEMA.rateLimitState({ pauseUntil: 5, reason: "window" })).toBe(true);
+    expect(STORAGE_SCHEMA.rateLimitState({ pauseUntil: 5, reason: "later" })).toBe(false);
+    expect(STORAGE_SCHEMA.recentFollows([1, 2, null])).toBe(false);
+  });
+
+  it("checks the optional fields of follow records", () => {
+    const record = { handle: "@a", displayName: "a", followedAt: 1, sourceUrl: "", outcome: "followed", runId: "r" };
+    expect(STORAGE_SCHEMA["followed:"]({ ...record, surface: "likes", badgeType: null })).toBe(true);
+    expect(STORAGE_SCHEMA["followed:"]({ ...record, surface: "moon" })).toBe(false);
+    expect(STORAGE_SCHEMA["followed:"]({ ...record, followsBack: "yes" })).toBe(false);
+  });
+});
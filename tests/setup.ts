@@ -0,0 +1,7 @@
+import { beforeEach } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+
+// In-memory browser.* APIs; start every test from empty storage
+beforeEach(() => {
+  fakeBrowser.reset();
+});
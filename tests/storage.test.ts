@@ -0,0 +1,337 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import {
+  checkAndResetDailyStats,
+  getDailyLimitState,
+  getAccountSummaries,
+  getActiveAccount,
+  getDailyStats,
+  getEventLog,
+  getRateLimitState,
+  getSelectorPack,
+  getSettings,
+  getTimeUntilDayReset,
+  incrementDailyFollowCount,
+  isDailyLimitReached,
+  getFollowHistory,
+  getFollowRecord,
+  isFollowed,
+  isRateLimited,
+  markAsFollowed,
+  migrateFollowedUsers,
+  resetDailyStats,
+  resetFollowedHistory,
+  setActiveAccount,
+  setDailyLimitState,
+  setRateLimitState,
+  setSelectorPack,
+  updateSettings,
+} from "../utils/storage";
+import { DEFAULT_SELECTOR_PACK } from "../utils/selectors";
+import { DEFAULT_FILTER_RULES } from "../utils/filters";
+
+describe("followed history", () => {
+  const record = (handle: string, followedAt = 1000) => ({
+    handle,
+    displayName: handle.slice(1),
+    followedAt,
+    sourceUrl: "https://x.com/op/status/1",
+    outcome: "followed" as const,
+    runId: "run-1",
+  });
+
+  it("remembers followed handles case-insensitively", async () => {
+    await markAsFollowed(record("@Alice"));
+
+    expect(await isFollowed("@alice")).toBe(true);
+    expect(await isFollowed("alice")).toBe(true);
+    expect(await isFollowed("@bob")).toBe(false);
+  });
+
+  it("stores the full record", async () => {
+    await markAsFollowed(record("@alice", 1234));
+
+    expect(await getFollowRecord("@alice")).toEqual(record("@alice", 1234));
+  });
+
+  it("lists records newest first", async () => {
+    await markAsFollowed(record("@alice", 1));
+    await markAsFollowed(record("@bob", 3));
+    await markAsFollowed(record("@carol", 2));
+    await updateSettings({ minDelay: 2000 });
+
+    expect((await getFollowHistory()).map((r) => r.handle)).toEqual([
+      "@bob",
+      "@carol",
+      "@alice",
+    ]);
+  });
+
+  it("can be reset", async () => {
+    await markAsFollowed(record("@alice"));
+    await resetFollowedHistory();
+
+    expect(await isFollowed("@alice")).toBe(false);
+    expect(await getFollowHistory()).toEqual([]);
+  });
+});
+
+describe("migrateFollowedUsers", () => {
+  it("converts the legacy handle array into records", async () => {
+    await fakeBrowser.storage.local.set({ followedUsers: ["@alice", "@bob", "@alice"] });
+
+    expect(await migrateFollowedUsers()).toBe(2);
+
+    expect(await isFollowed("@alice")).toBe(true);
+    expect(await getFollowRecord("@bob")).toMatchObject({
+      handle: "@bob",
+      outcome: "followed",
+      runId: "legacy",
+    });
+    expect(await fakeBrowser.storage.local.get("followedUsers")).toEqual({});
+  });
+
+  it("keeps existing records and is a no-op once migrated", async () => {
+    await markAsFollowed({
+      handle: "@alice",
+      displayName: "Alice",
+      sourceUrl: "",
+      outcome: "pending",
+      runId: "run-1",
+    });
+    await fakeBrowser.storage.local.set({ followedUsers: ["@alice"] });
+
+    expect(await migrateFollowedUsers()).toBe(0);
+    expect(await migrateFollowedUsers()).toBe(0);
+    expect((await getFollowRecord("@alice"))?.outcome).toBe("pending");
+  });
+});
+
+describe("settings", () => {
+  it("falls back to defaults", async () => {
+    expect(await getSettings()).toMatchObject({
+      minDelay: 1500,
+      maxDelay: 4000,
+      dailyFollowLimit: 100,
+    });
+  });
+
+  it("merges partial updates over stored values", async () => {
+    await updateSettings({ minDelay: 2000 });
+    await updateSettings({ maxDelay: 6000 });
+
+    expect(await getSettings()).toMatchObject({ minDelay: 2000, maxDelay: 6000 });
+  });
+
+  it("falls back to defaults for invalid stored fields", async () => {
+    await fakeBrowser.storage.local.set({
+      settings: { minDelay: 5000, maxDelay: "slow", dailyFollowLimit: 0, skipFollowed: false },
+    });
+
+    expect(await getSettings()).toMatchObject({
+      minDelay: 1500,
+      maxDelay: 4000,
+      dailyFollowLimit: 100,
+      skipFollowed: false,
+    });
+  });
+
+  it("refuses to store invalid settings", async () => {
+    await expect(updateSettings({ minDelay: 5000, maxDelay: 1000 })).rejects.toThrow(
+      "Invalid settings: maxDelay must be at least the min delay"
+    );
+    expect((await getSettings()).minDelay).toBe(1500);
+  });
+
+  it("reads stored values that fail their schema as missing", async () => {
+    await fakeBrowser.storage.local.set({ rateLimitState: { pauseUntil: "soon" }, eventLog: {} });
+
+    expect(await getRateLimitState()).toBeNull();
+    expect(await getEventLog()).toEqual([]);
+  });
+
+  it("fills in filter rules missing from stored settings", async () => {
+    await fakeBrowser.storage.local.set({
+      settings: { minDelay: 2000, filterRules: { denyHandles: ["@spam"] } },
+    });
+
+    expect((await getSettings()).filterRules).toEqual({
+      ...DEFAULT_FILTER_RULES,
+      denyHandles: ["@spam"],
+    });
+  });
+});
+
+describe("rate limit state", () => {
+  it("is limited until pauseUntil", async () => {
+    await setRateLimitState({ pauseUntil: Date.now() + 1000, reason: "window", windowId: "15m" });
+
+    expect(await isRateLimited()).toBe(true);
+    expect(await getRateLimitState()).toMatchObject({ reason: "window", windowId: "15m" });
+  });
+
+  it("is not limited once expired or absent", async () => {
+    expect(await isRateLimited()).toBe(false);
+
+    await setRateLimitState({ pauseUntil: Date.now() - 1, reason: "backoff" });
+    expect(await isRateLimited()).toBe(false);
+  });
+});
+
+describe("daily stats", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 0, 1, 12, 0, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts today's follows", async () => {
+    await incrementDailyFollowCount();
+    await incrementDailyFollowCount();
+
+    expect((await getDailyStats()).today).toEqual({ date: "2025-01-01", count: 2 });
+    expect(await isDailyLimitReached(2)).toBe(true);
+    expect(await isDailyLimitReached(3)).toBe(false);
+  });
+
+  it("rolls yesterday into history on a new day", async () => {
+    await incrementDailyFollowCount();
+    vi.setSystemTime(new Date(2025, 0, 2, 8, 0, 0));
+
+    const stats = await getDailyStats();
+
+    expect(stats.today).toEqual({ date: "2025-01-02", count: 0 });
+    expect(stats.history).toEqual([{ date: "2025-01-01", count: 1 }]);
+  });
+
+  it("clears the daily limit when the day changes", async () => {
+    await incrementDailyFollowCount();
+    await setDailyLimitState({ isLimited: true, limitReachedAt: Date.now() });
+    vi.setSystemTime(new Date(2025, 0, 2, 0, 0, 1));
+
+    await checkAndResetDailyStats();
+
+    expect(await getDailyLimitState()).toBeNull();
+    expect((await getDailyStats()).history).toHaveLength(1);
+  });
+
+  it("resetDailyStats() wipes history and limit state", async () => {
+    await incrementDailyFollowCount();
+    await setDailyLimitState({ isLimited: true, limitReachedAt: Date.now() });
+
+    await resetDailyStats();
+
+    expect(await getDailyStats()).toEqual({
+      today: { date: "2025-01-01", count: 0 },
+      history: [],
+    });
+    expect(await getDailyLimitState()).toBeNull();
+  });
+
+  it("computes the time until local midnight", async () => {
+    expect(await getTimeUntilDayReset()).toBe(12 * 60 * 60 * 1000);
+  });
+
+  it("rolls the day over at the configured reset hour", async () => {
+    await updateSettings({ dayResetHour: 4 });
+    vi.setSystemTime(new Date(2025, 0, 2, 3, 0, 0));
+
+    expect((await getDailyStats()).today.date).toBe("2025-01-01");
+    expect(await getTimeUntilDayReset()).toBe(60 * 60 * 1000);
+
+    vi.setSystemTime(new Date(2025, 0, 2, 4, 0, 0));
+    expect((await getDailyStats()).today.date).toBe("2025-01-02");
+  });
+});
+
+describe("selector pack", () => {
+  it("uses the built-in pack by default", async () => {
+    expect(await getSelectorPack()).toEqual(DEFAULT_SELECTOR_PACK);
+  });
+
+  it("prefers a stored pack of the same or newer version", async () => {
+    const pack = {
+      ...DEFAULT_SELECTOR_PACK,
+      selectors: { ...DEFAULT_SELECTOR_PACK.selectors, toast: ['[data-testid="snackbar"]'] },
+    };
+    await setSelectorPack(pack);
+
+    expect(await getSelectorPack()).toEqual(pack);
+  });
+
+  it("ignores stored packs older than the built-in one", async () => {
+    await fakeBrowser.storage.local.set({
+      selectorPack: { ...DEFAULT_SELECTOR_PACK, version: DEFAULT_SELECTOR_PACK.version - 1 },
+    });
+
+    expect(await getSelectorPack()).toEqual(DEFAULT_SELECTOR_PACK);
+  });
+
+  it("rejects invalid packs", async () => {
+    await expect(
+      setSelectorPack({ version: 2, selectors: {} } as any)
+    ).rejects.toThrow("Invalid selector pack");
+  });
+});
+
+describe("accounts", () => {
+  const record = (handle: string) => ({
+    handle,
+    displayName: "",
+    followedAt: 1000,
+    sourceUrl: "",
+    outcome: "followed" as const,
+    runId: "run-1",
+  });
+
+  it("keeps history, stats and limits apart per account", async () => {
+    await setActiveAccount("@me");
+    await markAsFollowed(record("@alice"));
+    await incrementDailyFollowCount();
+    await setRateLimitState({ pauseUntil: Date.now() + 60000, reason: "window" });
+
+    await setActiveAccount("@other");
+    expect(await isFollowed("@alice")).toBe(false);
+    expect((await getDailyStats()).today.count).toBe(0);
+    expect(await getRateLimitState()).toBeNull();
+
+    await setActiveAccount("@me");
+    expect(await isFollowed("@alice")).toBe(true);
+    expect((await getDailyStats()).today.count).toBe(1);
+  });
+
+  it("hands the data stored before accounts to the first one", async () => {
+    await markAsFollowed(record("@alice"));
+    await incrementDailyFollowCount();
+    await updateSettings({ minDelay: 2000 });
+
+    expect(await setActiveAccount("@Me")).toBe(true);
+    expect(await getActiveAccount()).toBe("@me");
+    expect(await isFollowed("@alice")).toBe(true);
+    expect((await getDailyStats()).today.count).toBe(1);
+    expect((await getSettings()).minDelay).toBe(2000);
+
+    const keys = Object.keys(await fakeBrowser.storage.local.get(null));
+    expect(keys).not.toContain("followed:@alice");
+    expect(keys).not.toContain("dailyStats");
+    expect(await setActiveAccount("me")).toBe(false);
+  });
+
+  it("summarises every account", async () => {
+    await setActiveAccount("@me");
+    await markAsFollowed(record("@alice"));
+    await markAsFollowed(record("@bob"));
+    await incrementDailyFollowCount();
+    await setActiveAccount("@other");
+    await setDailyLimitState({ isLimited: true, limitReachedAt: Date.now() });
+    await incrementDailyFollowCount();
+
+    expect(await getAccountSummaries()).toEqual([
+      { handle: "@me", active: false, today: 1, followed: 2, pausedUntil: null, dailyLimitReached: false },
+      { handle: "@other", active: true, today: 1, followed: 0, pausedUntil: null, dailyLimitReached: true },
+    ]);
+  });
+});
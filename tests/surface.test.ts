@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { getListSurface, isListSurface } from "../utils/surface";
+
+describe("getListSurface", () => {
+  it.each([
+    ["/op/followers", "", "followers"],
+    ["/op/followers_you_follow", "", "followers"],
+    ["/op/verified_followers", "", "verified_followers"],
+    ["/op/following/", "", "following"],
+    ["/op/status/100/likes", "", "likes"],
+    ["/op/status/100/retweets", "", "reposts"],
+    ["/op/status/100/reposts", "", "reposts"],
+    ["/search", "?q=typescript&f=user", "search_people"],
+  ])("reads %s%s as %s", (pathname, search, surface) => {
+    expect(getListSurface(pathname, search)).toBe(surface);
+  });
+
+  it.each([
+    ["/home", ""],
+    ["/op", ""],
+    ["/op/status/100", ""],
+    ["/search", "?q=typescript&f=live"],
+  ])("finds no list on %s%s", (pathname, search) => {
+    expect(getListSurface(pathname, search)).toBeNull();
+  });
+});
+
+describe("isListSurface", () => {
+  it("tells lists from posts", () => {
+    expect(isListSurface("likes")).toBe(true);
+    expect(isListSurface("thread")).toBe(false);
+    expect(isListSurface(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readXTheme, watchXTheme } from "../utils/theme";
+
+describe("readXTheme", () => {
+  afterEach(() => {
+    document.body.removeAttribute("style");
+  });
+
+  it.each([
+    ["rgb(255, 255, 255)", "light"],
+    ["rgb(21, 32, 43)", "dim"],
+    ["rgb(0, 0, 0)", "dark"],
+  ])("reads %s as %s", (color, theme) => {
+    document.body.style.backgroundColor = color;
+
+    expect(readXTheme()).toBe(theme);
+  });
+
+  it("reports theme switches", async () => {
+    document.body.style.backgroundColor = "rgb(255, 255, 255)";
+    const callback = vi.fn();
+    const observer = watchXTheme(callback);
+
+    document.body.style.backgroundColor = "rgb(0, 0, 0)";
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    observer.disconnect();
+
+    expect(callback).toHaveBeenCalledExactlyOnceWith("dark");
+  });
+});
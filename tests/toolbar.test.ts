@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { BADGE_COLORS, detectedBadge, progressText, runBadge, ToolbarBadges, type RunProgress } from "../utils/toolbar";
+
+const progress = (overrides: Partial<RunProgress> = {}): RunProgress => ({
+  status: "running",
+  processed: 3,
+  total: 12,
+  lastOutcome: "followed",
+  ...overrides,
+});
+
+describe("progressText", () => {
+  it("shows the counts while they fit and a percentage after", () => {
+    expect(progressText(3, 12)).toBe("3/12");
+    expect(progressText(12, 150)).toBe("8%");
+    expect(progressText(0, 0)).toBe("0/0");
+  });
+});
+
+describe("runBadge", () => {
+  it.each([
+    [{}, "running"],
+    [{ status: "paused" }, "paused"],
+    [{ status: "rate_limited" }, "rate_limited"],
+    [{ status: "daily_limit_reached" }, "daily_limit"],
+    [{ lastOutcome: "error" }, "error"],
+    [{ status: "rate_limited", lastOutcome: "error" }, "rate_limited"],
+  ] as [Partial<RunProgress>, string][])("colours %j as %s", (overrides, state) => {
+    expect(runBadge(progress(overrides))).toEqual({ text: "3/12", state });
+  });
+
+  it("has no badge once the run is over", () => {
+    expect(runBadge(progress({ status: "stopped" }))).toBeNull();
+    expect(runBadge(progress({ status: "idle" }))).toBeNull();
+  });
+});
+
+describe("detectedBadge", () => {
+  it("is empty without detected users and capped at four characters", () => {
+    expect(detectedBadge(0).text).toBe("");
+    expect(detectedBadge(42).text).toBe("42");
+    expect(detectedBadge(1500).text).toBe("999+");
+  });
+});
+
+describe("ToolbarBadges", () => {
+  let setBadgeText: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setBadgeText = vi.fn(async () => { });
+    vi.spyOn(fakeBrowser.action, "setBadgeText").mockImplementation(setBadgeText);
+    vi.spyOn(fakeBrowser.action, "setBadgeBackgroundColor").mockResolvedValue(undefined);
+  });
+
+  it("counts detected users per tab and starts over on a new page", async () => {
+    const toolbar = new ToolbarBadges();
+
+    toolbar.addDetected(1, 3);
+    toolbar.addDetected(1, 2);
+    toolbar.addDetected(2, 1);
+    expect(toolbar.badgeFor(1)).toEqual({ text: "5", state: "detected" });
+    expect(toolbar.badgeFor(2).text).toBe("1");
+
+    toolbar.resetTab(1);
+    await vi.waitFor(() => expect(setBadgeText).toHaveBeenLastCalledWith({ tabId: 1, text: "" }));
+  });
+
+  it("shows the run's progress in its tab and falls back to the count when it ends", async () => {
+    const toolbar = new ToolbarBadges();
+    toolbar.addDetected(1, 12);
+
+    toolbar.setRun(1, progress());
+    expect(toolbar.badgeFor(1)).toEqual({ text: "3/12", state: "running" });
+    await vi.waitFor(() =>
+      expect(fakeBrowser.action.setBadgeBackgroundColor).toHaveBeenLastCalledWith({ tabId: 1, color: BADGE_COLORS.running })
+    );
+
+    toolbar.setRun(1, progress({ status: "stopped" }));
+    expect(toolbar.badgeFor(1)).toEqual({ text: "12", state: "detected" });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * The X account logged in on the page. History, stats and limits are kept
+ * per account (see utils/storage.ts), so the content script reports it to
+ * the background.
+ */
+import { queryTarget } from "../utils/selectors";
+
+const HANDLE = /^@?([A-Za-z0-9_]{1,15})$/;
+
+function toHandle(text: string | null | undefined): string | null {
+  const match = HANDLE.exec((text || "").trim());
+  return match ? `@${match[1].toLowerCase()}` : null;
+}
+
+/**
+ * Lower-cased `@handle` of the logged-in account, from the profile tab's
+ * link or the side nav's account switcher; null while neither is rendered
+ * (logged out, or the page is still loading).
+ */
+export function readAccount(root: ParentNode = document): string | null {
+  const link = queryTarget<HTMLAnchorElement>(root, "profileLink");
+  const fromLink = toHandle(link?.getAttribute("href")?.replace(/^\//, ""));
+  if (fromLink) return fromLink;
+
+  const switcher = queryTarget(root, "accountSwitcher");
+  if (!switcher) return null;
+  for (const span of Array.from(switcher.querySelectorAll("span"))) {
+    const text = span.textContent?.trim() || "";
+    if (text.startsWith("@")) return toHandle(text);
+  }
+  return null;
+}
+
+/**
+ * Calls `callback` once the logged-in account is rendered and whenever it
+ * changes afterwards (X switches accounts without a reload).
+ */
+export function watchAccount(callback: (handle: string) => void, doc: Document = document) {
+  let current: string | null = null;
+  const check = () => {
+    const next = readAccount(doc);
+    if (next && next !== current) {
+      current = next;
+      callback(next);
+    }
+  };
+
+  const observer = new MutationObserver(check);
+  observer.observe(doc, { childList: true, subtree: true });
+  check();
+  return observer;
+}
@@ -0,0 +1,173 @@
+/**
+ * Follow analytics: per-day and per-hour counters of attempted, succeeded,
+ * skipped and failed follows and of rate-limit pauses. Days are keyed like
+ * the daily stats (see utils/clock.ts) and kept for `statsRetentionDays`.
+ * Dry runs are not counted.
+ *
+ * A user is either attempted or skipped, never both: `attempted` counts the
+ * follows that were carried out on X and ended as `succeeded` or `failed`;
+ * `skipped` counts users left alone, whether by a targeting rule, by the
+ * follow history or because X already showed them as followed.
+ */
+import { clock, dayKey, zonedTime, type DayBoundary } from './clock';
+import logger from './logger';
+import { getAnalytics, getDayBoundary, getSettings, setAnalytics } from './storage';
+
+export const ANALYTICS_COUNTERS = ['attempted', 'succeeded', 'skipped', 'failed', 'rateLimited'] as const;
+
+export type AnalyticsCounter = (typeof ANALYTICS_COUNTERS)[number];
+
+export type AnalyticsCounts = Record<AnalyticsCounter, number>;
+
+export interface AnalyticsDay {
+  // `YYYY-MM-DD` under the day boundary
+  date: string;
+  totals: AnalyticsCounts;
+  // 24 counts per counter, by wall-clock hour in the boundary's time zone
+  hours: Record<AnalyticsCounter, number[]>;
+}
+
+export const ANALYTICS_LABELS: Record<AnalyticsCounter, string> = {
+  attempted: 'Attempted',
+  succeeded: 'Succeeded',
+  skipped: 'Skipped',
+  failed: 'Failed',
+  rateLimited: 'Rate limits',
+};
+
+const counters = <T>(value: () => T) =>
+  Object.fromEntries(ANALYTICS_COUNTERS.map(c => [c, value()])) as Record<AnalyticsCounter, T>;
+
+export function emptyDay(date: string): AnalyticsDay {
+  return { date, totals: counters(() => 0), hours: counters(() => new Array<number>(24).fill(0)) };
+}
+
+/**
+ * `YYYY-MM-DD` `offset` days from `date`.
+ */
+export function shiftDate(date: string, offset: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+}
+
+/**
+ * Adds `count` to `counter` at `at` and drops the days older than
+ * `retentionDays`. Returns new days, oldest first; `days` is not changed.
+ */
+export function countAt(
+  days: AnalyticsDay[],
+  counter: AnalyticsCounter,
+  at: number,
+  boundary: DayBoundary,
+  retentionDays: number,
+  count = 1,
+): AnalyticsDay[] {
+  const date = dayKey(at, boundary);
+  const hour = zonedTime(at, boundary.timeZone).hour;
+  const existing = days.find(d => d.date === date);
+  const day = existing ? structuredClone(existing) : emptyDay(date);
+  day.totals[counter] += count;
+  day.hours[counter][hour] += count;
+
+  const oldest = shiftDate(date, 1 - retentionDays);
+  return [...days.filter(d => d.date !== date), day]
+    .filter(d => d.date >= oldest)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Writes are chained so counts recorded back to back are not lost
+let writing: Promise<void> = Promise.resolve();
+
+/**
+ * Counts one on `counter` for now, in `account`'s analytics (the active
+ * account's when left out).
+ */
+export function recordAnalytics(counter: AnalyticsCounter, account?: string | null): Promise<void> {
+  const at = clock.now();
+  writing = writing
+    .then(async () => {
+      const [days, boundary, { statsRetentionDays }] = await Promise.all([getAnalytics(account), getDayBoundary(), getSettings()]);
+      await setAnalytics(countAt(days, counter, at, boundary, statsRetentionDays), account);
+    })
+    .catch(e => logger.error('[xfollow] Failed to record analytics', e));
+  return writing;
+}
+
+/**
+ * Totals over all `days`.
+ */
+export function sumDays(days: AnalyticsDay[]): AnalyticsCounts {
+  const sum = counters(() => 0);
+  for (const day of days) {
+    for (const c of ANALYTICS_COUNTERS) sum[c] += day.totals[c];
+  }
+  return sum;
+}
+
+/**
+ * Counts of `counter` per hour of the day (0-23), over all `days`.
+ */
+export function hourlyTotals(days: AnalyticsDay[], counter: AnalyticsCounter): number[] {
+  const hours = new Array<number>(24).fill(0);
+  for (const day of days) {
+    day.hours[counter].forEach((count, hour) => (hours[hour] += count));
+  }
+  return hours;
+}
+
+/**
+ * Counts of `counter` for the `length` days ending with `lastDate`, oldest
+ * first; days without data count 0.
+ */
+export function dailySeries(days: AnalyticsDay[], counter: AnalyticsCounter, lastDate: string, length: number): number[] {
+  const byDate = new Map(days.map(d => [d.date, d.totals[counter]]));
+  return Array.from({ length }, (_, i) => byDate.get(shiftDate(lastDate, i - length + 1)) ?? 0);
+}
+
+/**
+ * Share of attempted follows that succeeded; null before any attempt.
+ */
+export function successRatio(counts: AnalyticsCounts): number | null {
+  return counts.attempted > 0 ? counts.succeeded / counts.attempted : null;
+}
+
+/**
+ * Runs of consecutive days with a successful follow. The current streak
+ * ends today, or yesterday while today has none yet.
+ */
+export function followStreaks(days: AnalyticsDay[], today: string): { current: number; longest: number } {
+  const active = new Set(days.filter(d => d.totals.succeeded > 0).map(d => d.date));
+
+  let longest = 0;
+  for (const date of active) {
+    if (active.has(shiftDate(date, -1))) continue;
+    let length = 1;
+    while (active.has(shiftDate(date, length))) length++;
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  let date = active.has(today) ? today : shiftDate(today, -1);
+  while (active.has(date)) {
+    current++;
+    date = shiftDate(date, -1);
+  }
+  return { current, longest };
+}
+
+/**
+ * SVG path of a line through `values`, scaled to a `width` x `height` box
+ * with 0 at the bottom.
+ */
+export function sparklinePath(values: number[], width: number, height: number): string {
+  if (values.length === 0) return '';
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values
+    .map((value, i) => {
+      const x = Math.round(i * step * 10) / 10;
+      const y = Math.round((height - (value / max) * height) * 10) / 10;
+      return `${i === 0 ? 'M' : 'L'}${x},${y}`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,177 @@
+/**
+ * Follow-back audit: revisits followed accounts after a few days, records
+ * whether they follow back and summarises the rate per day, source thread,
+ * targeting rule and badge type.
+ */
+import { browser } from 'wxt/browser';
+import { clock, dayKey, LOCAL_MIDNIGHT, type DayBoundary } from './clock';
+import type { FilterRuleId } from './filters';
+import { sleepRandom } from './index';
+import { requestTab } from './protocol';
+import {
+  getActiveAccount,
+  getDayBoundary,
+  getFollowHistory,
+  getSettings,
+  setFollowBack,
+  setFollowBackReport,
+  type FollowRecord,
+} from './storage';
+
+export interface FollowBackBucket {
+  key: string;
+  audited: number;
+  followedBack: number;
+  // followedBack / audited, 0 when nothing was audited
+  rate: number;
+}
+
+export interface FollowBackReport {
+  generatedAt: number;
+  auditAfterDays: number;
+  // Follows not audited yet, due or not
+  unaudited: number;
+  overall: FollowBackBucket;
+  // Keyed by the day of the follow under the day boundary (see utils/clock.ts)
+  byDay: FollowBackBucket[];
+  byThread: FollowBackBucket[];
+  // `none` groups follows made with no targeting rule switched on
+  byRule: FollowBackBucket[];
+  // `unknown` groups follows recorded before badge types were read
+  byBadge: FollowBackBucket[];
+  // By profile name; `none` groups follows made without a profile. Missing
+  // on reports from before profiles were recorded
+  byProfile?: FollowBackBucket[];
+}
+
+/**
+ * Reads whether `handle` follows back; null when it could not be told.
+ */
+export type FollowBackCheck = (handle: string) => Promise<boolean | null>;
+
+export interface AuditOptions {
+  // Accounts checked per audit run
+  limit?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  onProgress?: (checked: number, total: number) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isAudited = (record: FollowRecord) => typeof record.followsBack === 'boolean';
+
+/**
+ * Follows this extension made (or requested) that are old enough to audit
+ * and were not audited yet, oldest first.
+ */
+export function getDueForAudit(records: FollowRecord[], afterDays: number, now = clock.now()): FollowRecord[] {
+  return records
+    .filter(r => (r.outcome === 'followed' || r.outcome === 'pending') && !isAudited(r))
+    .filter(r => r.followedAt <= now - afterDays * DAY_MS)
+    .sort((a, b) => a.followedAt - b.followedAt);
+}
+
+function groupBuckets(records: FollowRecord[], keysOf: (record: FollowRecord) => string[]): FollowBackBucket[] {
+  const buckets = new Map<string, FollowBackBucket>();
+  for (const record of records) {
+    for (const key of keysOf(record)) {
+      const bucket = buckets.get(key) || { key, audited: 0, followedBack: 0, rate: 0 };
+      bucket.audited++;
+      if (record.followsBack) bucket.followedBack++;
+      bucket.rate = bucket.followedBack / bucket.audited;
+      buckets.set(key, bucket);
+    }
+  }
+  return Array.from(buckets.values());
+}
+
+export function buildFollowBackReport(
+  records: FollowRecord[],
+  auditAfterDays: number,
+  now = clock.now(),
+  boundary: DayBoundary = LOCAL_MIDNIGHT,
+): FollowBackReport {
+  const followed = records.filter(r => r.outcome === 'followed' || r.outcome === 'pending');
+  const audited = followed.filter(isAudited);
+  const byKey = (a: FollowBackBucket, b: FollowBackBucket) => a.key.localeCompare(b.key);
+
+  return {
+    generatedAt: now,
+    auditAfterDays,
+    unaudited: followed.length - audited.length,
+    overall: groupBuckets(audited, () => ['all'])[0] || { key: 'all', audited: 0, followedBack: 0, rate: 0 },
+    byDay: groupBuckets(audited, r => [dayKey(r.followedAt, boundary)]).sort(byKey),
+    byThread: groupBuckets(audited, r => [r.sourceUrl || 'unknown']).sort((a, b) => b.audited - a.audited),
+    byRule: groupBuckets(audited, r => (r.rules?.length ? r.rules : ['none'] as (FilterRuleId | 'none')[])).sort(byKey),
+    byBadge: groupBuckets(audited, r => [r.badgeType || 'unknown']).sort(byKey),
+    byProfile: groupBuckets(audited, r => [r.profile?.name || 'none']).sort(byKey),
+  };
+}
+
+/**
+ * Checks the due follows one by one, stores each result on its follow record
+ * and saves the refreshed report.
+ */
+export async function runFollowBackAudit(check: FollowBackCheck, options: AuditOptions = {}): Promise<FollowBackReport> {
+  const { limit = 20, minDelay = 2000, maxDelay = 5000, onProgress } = options;
+  const { auditAfterDays } = await getSettings();
+  // Results go to the account audited, even after a switch
+  const account = await getActiveAccount();
+  const due = getDueForAudit(await getFollowHistory(account), auditAfterDays).slice(0, limit);
+
+  for (let i = 0; i < due.length; i++) {
+    const followsBack = await check(due[i].handle);
+    if (followsBack !== null) {
+      await setFollowBack(due[i].handle, followsBack, clock.now(), account);
+    }
+    onProgress?.(i + 1, due.length);
+    if (i < due.length - 1) await sleepRandom(minDelay, maxDelay);
+  }
+
+  const report = buildFollowBackReport(await getFollowHistory(account), auditAfterDays, clock.now(), await getDayBoundary());
+  await setFollowBackReport(report, account);
+  return report;
+}
+
+/**
+ * Opens the profiles being audited in one background tab and asks its
+ * content script for the "Follows you" indicator. `tabId` is that tab, null
+ * until the first check opens it.
+ */
+export function createProfileTabCheck(): { check: FollowBackCheck; close: () => Promise<void>; tabId: () => number | null } {
+  let tabId: number | null = null;
+
+  const check: FollowBackCheck = async (handle) => {
+    const url = `https://x.com/${handle.replace(/^@/, '')}`;
+    if (tabId === null) {
+      tabId = (await browser.tabs.create({ url, active: false })).id ?? null;
+    } else {
+      await browser.tabs.update(tabId, { url });
+    }
+    if (tabId === null) return null;
+
+    for (let attempt = 0; attempt < 15; attempt++) {
+      try {
+        const { followsBack } = await requestTab(tabId, 'CHECK_FOLLOWS_BACK', { handle });
+        if (typeof followsBack === 'boolean') return followsBack;
+      } catch (e) {
+        // Profile still loading
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    return null;
+  };
+
+  const close = async () => {
+    if (tabId === null) return;
+    try {
+      await browser.tabs.remove(tabId);
+    } catch (e) {
+      // Closed by the user
+    }
+    tabId = null;
+  };
+
+  return { check, close, tabId: () => tabId };
+}
@@ -0,0 +1,170 @@
+/**
+ * Export and import of follow history, daily stats and settings. History and
+ * stats are the active account's.
+ */
+import { clock } from './clock';
+import { isFollowOutcome } from './followQueue';
+import { normalizeHandle } from './filters';
+import { FOLLOW_RECORD_OPTIONAL_FIELDS, formatFieldError, isObject, validateSettings } from './schema';
+import {
+    getDailyStats,
+    getFollowHistory,
+    getSettings,
+    resetFollowedHistory,
+    saveFollowRecords,
+    setDailyStats,
+    updateSettings,
+    type DailyFollowStats,
+    type DailyStatsHistory,
+    type FollowRecord,
+    type Settings,
+} from './storage';
+
+export const BACKUP_FORMAT = 'xfollow-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: number;
+    followHistory: FollowRecord[];
+    dailyStats: DailyStatsHistory;
+    settings: Settings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type BackupValidation =
+    | { ok: true; backup: BackupFile }
+    | { ok: false; errors: string[] };
+
+const CSV_COLUMNS: (keyof FollowRecord)[] = ['handle', 'displayName', 'followedAt', 'sourceUrl', 'outcome', 'runId', 'profile'];
+
+export async function createBackup(): Promise<BackupFile> {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: clock.now(),
+        followHistory: await getFollowHistory(),
+        dailyStats: await getDailyStats(),
+        settings: await getSettings(),
+    };
+}
+
+function csvCell(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV of the follow history, one record per row with an ISO timestamp
+ */
+export function followHistoryToCsv(records: FollowRecord[]): string {
+    const rows = records.map(record => CSV_COLUMNS.map(column => {
+        const value = column === 'followedAt'
+            ? new Date(record.followedAt).toISOString()
+            : column === 'profile'
+                ? record.profile?.name ?? ''
+                : String(record[column] ?? '');
+        return csvCell(value);
+    }).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+function validateDay(day: unknown, path: string, errors: string[]) {
+    if (!isObject(day) || typeof day.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day.date)) {
+        errors.push(`${path}.date must be a YYYY-MM-DD string`);
+    } else if (typeof day.count !== 'number' || day.count < 0) {
+        errors.push(`${path}.count must be a non-negative number`);
+    }
+}
+
+/**
+ * Checks an untrusted (parsed) backup file. Nothing is written unless this
+ * reports no errors.
+ */
+export function validateBackup(value: unknown): BackupValidation {
+    const errors: string[] = [];
+    if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+        return { ok: false, errors: ['Not an xfollow backup file'] };
+    }
+    if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+        errors.push(`Unsupported backup version ${String(value.version)}`);
+    }
+
+    if (!Array.isArray(value.followHistory)) {
+        errors.push('followHistory must be a list');
+    } else {
+        value.followHistory.forEach((record, i) => {
+            const path = `followHistory[${i}]`;
+            if (!isObject(record)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            if (typeof record.handle !== 'string' || record.handle.trim() === '') errors.push(`${path}.handle is required`);
+            if (typeof record.followedAt !== 'number') errors.push(`${path}.followedAt must be a timestamp`);
+            if (!isFollowOutcome(record.outcome)) errors.push(`${path}.outcome is not a known outcome`);
+            for (const key of ['displayName', 'sourceUrl', 'runId']) {
+                if (typeof record[key] !== 'string') errors.push(`${path}.${key} must be a string`);
+            }
+            // Checked like stored records, which drop a record failing them
+            for (const [key, guard] of Object.entries(FOLLOW_RECORD_OPTIONAL_FIELDS)) {
+                if (!guard(record[key])) errors.push(`${path}.${key} is not valid`);
+            }
+        });
+    }
+
+    const stats = value.dailyStats;
+    if (!isObject(stats) || !Array.isArray(stats.history)) {
+        errors.push('dailyStats must have today and history');
+    } else {
+        validateDay(stats.today, 'dailyStats.today', errors);
+        stats.history.forEach((day, i) => validateDay(day, `dailyStats.history[${i}]`, errors));
+    }
+
+    if (!isObject(value.settings)) {
+        errors.push('settings must be an object');
+    } else {
+        errors.push(...validateSettings(value.settings).map(e => formatFieldError(e, 'settings.')));
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, backup: value as unknown as BackupFile };
+}
+
+function mergeDays(current: DailyFollowStats[], imported: DailyFollowStats[]): DailyFollowStats[] {
+    // The same day exported from two profiles keeps the higher count
+    const byDate = new Map<string, DailyFollowStats>();
+    for (const day of [...current, ...imported]) {
+        const existing = byDate.get(day.date);
+        if (!existing || day.count > existing.count) byDate.set(day.date, { ...day });
+    }
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Writes a validated backup. `replace` discards the current data first;
+ * `merge` keeps existing follow records and combines daily stats. Both save
+ * the settings like the settings panel does, active profile included.
+ */
+export async function importBackup(backup: BackupFile, mode: ImportMode): Promise<void> {
+    if (mode === 'replace') {
+        await resetFollowedHistory();
+        await saveFollowRecords(backup.followHistory);
+        await setDailyStats(backup.dailyStats);
+        await updateSettings(backup.settings);
+        return;
+    }
+
+    const existing = new Set((await getFollowHistory()).map(r => normalizeHandle(r.handle)));
+    await saveFollowRecords(backup.followHistory.filter(r => !existing.has(normalizeHandle(r.handle))));
+
+    const current = await getDailyStats();
+    const { statsRetentionDays } = await getSettings();
+    const days = mergeDays([...current.history, current.today], [...backup.dailyStats.history, backup.dailyStats.today]);
+    const today = days.find(d => d.date === current.today.date) || current.today;
+    await setDailyStats({
+        today,
+        history: days.filter(d => d.date < current.today.date).slice(-statsRetentionDays),
+    });
+
+    await updateSettings(backup.settings);
+}
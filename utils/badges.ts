@@ -0,0 +1,31 @@
+/**
+ * Kinds of checkmark X shows next to a name: Premium subscribers (blue),
+ * verified organisations (gold), government accounts (grey) and accounts
+ * affiliated with an organisation (its avatar next to the checkmark).
+ */
+
+export type BadgeType = "blue" | "business" | "government" | "affiliate";
+
+export const BADGE_TYPES: BadgeType[] = ["blue", "business", "government", "affiliate"];
+
+export const BADGE_LABELS: Record<BadgeType, string> = {
+  blue: "Premium",
+  business: "Business",
+  government: "Government",
+  affiliate: "Affiliate",
+};
+
+export function isBadgeType(value: unknown): value is BadgeType {
+  return BADGE_TYPES.includes(value as BadgeType);
+}
+
+/**
+ * Counts users per badge type; users without a badge are left out.
+ */
+export function countByBadge(users: { badgeType?: BadgeType | null }[]): Partial<Record<BadgeType, number>> {
+  const counts: Partial<Record<BadgeType, number>> = {};
+  for (const { badgeType } of users) {
+    if (badgeType) counts[badgeType] = (counts[badgeType] || 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,134 @@
+/**
+ * The one source of "now" and of day boundaries. Date logic reads the time
+ * through `clock` so tests (or a debug build) can swap it with `setClock`.
+ */
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+let source: Clock = systemClock;
+
+export const clock: Clock = { now: () => source.now() };
+
+/**
+ * Replaces the time source; `null` goes back to the system clock.
+ */
+export function setClock(next: Clock | null) {
+  source = next || systemClock;
+}
+
+export interface DayBoundary {
+  // Hour (0-23) at which a new day starts for the daily limit and stats
+  resetHour: number;
+  // IANA time zone such as `Europe/Berlin`; empty for the browser's
+  timeZone: string;
+}
+
+export const LOCAL_MIDNIGHT: DayBoundary = { resetHour: 0, timeZone: '' };
+
+export interface ZonedTime {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 is Sunday
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of `at` in `timeZone`.
+ */
+export function zonedTime(at: number, timeZone: string): ZonedTime {
+  if (!timeZone) {
+    const date = new Date(at);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      weekday: date.getDay(),
+    };
+  }
+
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(at));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')) % 24,
+    minute: Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+  };
+}
+
+/**
+ * Instant of a wall-clock time in `timeZone`. Out-of-range fields roll over
+ * (hour 24 is the next day's 0:00).
+ */
+export function fromZonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  if (!timeZone) return new Date(year, month - 1, day, hour, minute).getTime();
+
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  let at = wall;
+  // The offset at the guess can differ from the one at the answer across a DST change
+  for (let i = 0; i < 2; i++) {
+    const z = zonedTime(at, timeZone);
+    const offset = Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute) - Math.floor(at / 60000) * 60000;
+    at = wall - offset;
+  }
+  return at;
+}
+
+/**
+ * `YYYY-MM-DD` of the day `at` belongs to; a day runs from one reset hour to
+ * the next.
+ */
+export function dayKey(at: number, boundary: DayBoundary = LOCAL_MIDNIGHT): string {
+  const z = zonedTime(at, boundary.timeZone);
+  const date = new Date(Date.UTC(z.year, z.month - 1, z.day - (z.hour < boundary.resetHour ? 1 : 0)));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * When the day after the one `at` belongs to starts.
+ */
+export function nextDayStart(at: number, boundary: DayBoundary = LOCAL_MIDNIGHT): number {
+  const z = zonedTime(at, boundary.timeZone);
+  const day = z.day + (z.hour < boundary.resetHour ? 0 : 1);
+  return fromZonedTime(z.year, z.month, day, boundary.resetHour, 0, boundary.timeZone);
+}
@@ -1,81 +1,295 @@
 /**
- * Utility to detect verified users and their handles in X (Twitter) threads.
+ * Utility to detect verified users and their handles in X (Twitter) threads
+ * and user lists.
  */
 import logger from "../utils/logger";
+import { getSelectorChain, queryTarget, queryTargetAll, type SelectorTarget } from "../utils/selectors";
+import { emitEvent } from "../utils/protocol";
+import { getListSurface, type ListSurface, type Surface } from "../utils/surface";
+import type { BadgeType } from "../utils/badges";
 
 export interface DetectedUser {
   handle: string;
   displayName: string;
   isVerified: boolean;
+  // Null without a checkmark
+  badgeType: BadgeType | null;
   element: HTMLElement;
   // Element that should be hovered to reveal follow controls (e.g. display name span)
   hoverElement?: HTMLElement;
+  replyText?: string;
+  // Bio shown in a user list cell
+  bio?: string;
+  // Answers the thread's original post itself, not another reply below it
+  isDirectReply?: boolean;
+  surface: Surface;
 }
 
-export const SELECTORS = {
-  ARTICLE: 'article[data-testid="tweet"]',
-  VERIFIED_BADGE: '[data-testid="icon-verified"]',
-  USER_NAME: '[data-testid="User-Name"]',
-  HANDLE: "span", // Starting with @
+/**
+ * Serializable view of a detected user, sent from the content script to the
+ * background which owns the run.
+ */
+export type CandidateUser = Omit<DetectedUser, "element" | "hoverElement"> & {
+  sourceUrl: string;
 };
 
+export function toCandidate(user: DetectedUser, sourceUrl: string): CandidateUser {
+  return {
+    handle: user.handle,
+    displayName: user.displayName,
+    isVerified: user.isVerified,
+    badgeType: user.badgeType,
+    replyText: user.replyText,
+    bio: user.bio,
+    isDirectReply: user.isDirectReply,
+    surface: user.surface,
+    sourceUrl,
+  };
+}
+
+export interface ThreadContext {
+  opHandle: string;
+  statusId: string;
+}
+
+/**
+ * Parses a `/<handle>/status/<id>` path; returns null off thread pages.
+ */
+export function getThreadContext(
+  pathname: string = location.pathname
+): ThreadContext | null {
+  const match = /^\/([^/]+)\/status\/(\d+)/.exec(pathname);
+  if (!match) return null;
+  return { opHandle: `@${match[1]}`, statusId: match[2] };
+}
+
+function getStatusId(container: Element): string | null {
+  const link = queryTarget<HTMLAnchorElement>(container, "statusLink");
+  const match = link && /\/status\/(\d+)/.exec(link.getAttribute("href") || "");
+  return match ? match[1] : null;
+}
+
+/**
+ * Reads handle and display name from the profile links of a post's
+ * User-Name container or of a list cell. The handle link is the hover target.
+ */
+function readNameLinks(container: Element, user: DetectedUser) {
+  // find a tag
+  const aElements = container.querySelectorAll("a");
+  // if text in it starts with @, it's handle
+  // else it's display name
+
+  for (const el of aElements) {
+    const spanElements = el.querySelectorAll("span");
+
+    for (const span of spanElements) {
+      let text = span.textContent || "";
+      text = text.trim();
+
+      if (text.startsWith("@")) {
+        user.handle = text;
+        user.hoverElement = el as HTMLElement;
+      } else if (text.length > 0) {
+        if (text !== "·") {
+          user.displayName = text;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * A cell's bio: its text blocks outside links, controls and the "Follows
+ * you" indicator.
+ */
+function readCellBio(cell: HTMLElement): string {
+  const followsYou = queryTarget(cell, "followsYouIndicator");
+  return Array.from(cell.querySelectorAll<HTMLElement>('[dir="auto"]'))
+    .filter((el) => {
+      const control = el.closest("a, button, [role='button']");
+      return (!control || control === cell) &&
+        !el.parentElement?.closest('[dir="auto"]') &&
+        !followsYou?.contains(el);
+    })
+    .map((el) => (el.textContent || "").trim())
+    .filter((text) => text.length > 0)
+    .join(" ");
+}
+
+// Government checkmarks are grey; Premium ones are blue
+const GOVERNMENT_COLOR = "rgb(130,154,171)";
+
+/**
+ * Tells the checkmarks apart: an organisation's avatar next to it marks an
+ * affiliate, a gradient fill the gold business badge and a grey fill a
+ * government account.
+ */
+export function readBadgeType(badge: Element): BadgeType {
+  if (badge.parentElement && queryTarget(badge.parentElement, "affiliateBadge")) {
+    return "affiliate";
+  }
+  const fills = [badge, ...Array.from(badge.querySelectorAll("path"))].map((el) => el.getAttribute("fill") || "");
+  if (badge.querySelector("linearGradient") || fills.some((fill) => fill.startsWith("url("))) {
+    return "business";
+  }
+  const colors = [getComputedStyle(badge).color, ...fills].map((color) => color.replace(/\s/g, ""));
+  return colors.includes(GOVERNMENT_COLOR) ? "government" : "blue";
+}
+
+function readBadge(container: Element, user: DetectedUser) {
+  const badge = queryTarget(container, "verifiedBadge");
+  user.isVerified = !!badge;
+  user.badgeType = badge ? readBadgeType(badge) : null;
+}
+
+function closestTarget(el: Element, target: SelectorTarget): Element | null {
+  for (const selector of getSelectorChain(target)) {
+    try {
+      const found = el.closest(selector);
+      if (found) return found;
+    } catch (e) {
+      // Invalid selector in a user-edited pack
+    }
+  }
+  return null;
+}
+
+function isInSidebar(el: Element): boolean {
+  return !!closestTarget(el, "sidebar");
+}
+
+/**
+ * Handle of a post's "Replying to @handle" line, when X shows one.
+ */
+function readReplyingTo(article: Element, tweetText: Element | null): string | null {
+  for (const el of article.querySelectorAll("div")) {
+    if (tweetText?.contains(el) || !/^\s*Replying to\b/.test(el.textContent || "")) continue;
+    const match = /^\/([^/?#]+)/.exec(el.querySelector("a[href]")?.getAttribute("href") || "");
+    if (match) return `@${match[1]}`;
+  }
+  return null;
+}
+
+function isFocusedPost(article: Element, thread: ThreadContext): boolean {
+  const userName = queryTarget(article, "userName");
+  return !!userName && getStatusId(userName) === thread.statusId;
+}
+
+// The post in the conversation cell right above, if that cell holds one
+function postAbove(article: Element): Element | null {
+  const above = closestTarget(article, "conversationCell")?.previousElementSibling;
+  return above ? queryTarget(above, "article") : null;
+}
+
+/**
+ * Whether X separates the reply chains below the focused post with cells
+ * holding no post. The first reply is left out: the reply box may sit
+ * above it.
+ */
+function separatesReplyChains(replies: Element[]): boolean {
+  return replies.slice(1).some((article) => !!closestTarget(article, "conversationCell") && !postAbove(article));
+}
+
+/**
+ * Whether a reply below the focused post answers the thread's original post.
+ * The "Replying to" line names the target. Without it, replies are told
+ * apart by chain when X separates its reply chains: a post then answers the
+ * one in the cell above, and a post opening a chain answers the original
+ * post. When it does not, every reply counts as direct.
+ */
+function isReplyToOriginalPost(
+  article: Element,
+  tweetText: Element | null,
+  thread: ThreadContext,
+  chainsSeparated: boolean
+): boolean {
+  const replyingTo = readReplyingTo(article, tweetText);
+  if (replyingTo) return replyingTo.toLowerCase() === thread.opHandle.toLowerCase();
+  if (!chainsSeparated) return true;
+
+  const parent = postAbove(article);
+  return !parent || isFocusedPost(parent, thread);
+}
+
+/**
+ * Users of the page's follower, following, engagement or people search list.
+ * The sidebar's suggestions are left out.
+ */
+export function detectListUsers(surface: ListSurface): DetectedUser[] {
+  const users: DetectedUser[] = [];
+
+  queryTargetAll(document, "userCell").forEach((cell) => {
+    if (isInSidebar(cell)) return;
+
+    const user = { element: cell, surface } as DetectedUser;
+    readNameLinks(cell, user);
+    if (!user.handle) return;
+    readBadge(cell, user);
+    user.bio = readCellBio(cell);
+
+    logger.debug(
+      `[xfollow] Detected ${surface} user: handle=${user.handle}, displayName=${user.displayName}, badge=${user.badgeType}`
+    );
+
+    users.push(user);
+  });
+
+  return users;
+}
+
 export function detectUsers(): DetectedUser[] {
   const users: DetectedUser[] = [];
+  const thread = getThreadContext();
+  const surface: Surface = thread ? "thread" : "timeline";
+  let seenOriginalPost = false;
 
   // get all articles in the current view
-  const articles = document.querySelectorAll(SELECTORS.ARTICLE);
+  const articles = queryTargetAll(document, "article");
+  const focusedIndex = thread ? articles.findIndex((article) => isFocusedPost(article, thread)) : -1;
+  const chainsSeparated = focusedIndex >= 0 && separatesReplyChains(articles.slice(focusedIndex + 1));
   // Strategy: For each article, find the User-Name container, then extract handle and display name, isVerified
   articles.forEach((article) => {
-    const user: DetectedUser = {} as DetectedUser;
+    const user: DetectedUser = { surface } as DetectedUser;
 
     // 1. fill the article element
     user.element = article as HTMLElement;
 
     // 2. find the User-Name container
-    const userNameContainer = article.querySelector(SELECTORS.USER_NAME);
+    const userNameContainer = queryTarget(article, "userName");
     if (!userNameContainer) return; // skip if not found
 
-    // 3. get isVerified
-    const verifiedBadge = userNameContainer.querySelector(
-      SELECTORS.VERIFIED_BADGE
-    );
-    user.isVerified = !!verifiedBadge;
-
-    // find a tag
-    const aElements = userNameContainer.querySelectorAll("a");
-    // if text in it starts with @, it's handle
-    // else it's display name
-
-    for (const el of aElements) {
-      const spanElements = el.querySelectorAll("span");
-
-      for (const span of spanElements) {
-        let text = span.textContent || "";
-        text = text.trim();
-
-        if (text.startsWith("@")) {
-          user.handle = text;
-          user.hoverElement = el as HTMLElement;
-        } else if (text.length > 0) {
-          if (text !== "·") {
-            user.displayName = text;
-          }
-        }
-      }
-    }
+    // 3. get isVerified and the badge type
+    readBadge(userNameContainer, user);
+
+    // 4. reply text and whether it answers the original post
+    const tweetText = queryTarget(article, "tweetText");
+    user.replyText = (tweetText?.textContent || "").trim();
+
+    const isOriginalPost =
+      !!thread && getStatusId(userNameContainer) === thread.statusId;
+    // Posts above the focused one are its ancestors, not replies
+    user.isDirectReply =
+      !!thread && seenOriginalPost && !isOriginalPost && isReplyToOriginalPost(article, tweetText, thread, chainsSeparated);
+    if (isOriginalPost) seenOriginalPost = true;
+
+    readNameLinks(userNameContainer, user);
 
     logger.debug(
-      `[xfollow] Detected user: handle=${user.handle}, displayName=${user.displayName}, isVerified=${user.isVerified}`
+      `[xfollow] Detected user: handle=${user.handle}, displayName=${user.displayName}, badge=${user.badgeType}`
     );
 
     users.push(user);
   });
 
+  // Lists can open over a thread (e.g. "Liked by"), so both are read
+  const listSurface = getListSurface(location.pathname, location.search);
+  if (listSurface) users.push(...detectListUsers(listSurface));
+
   return users;
 }
 
 /**
- * Finds all verified users in the current view of a thread.
+ * Finds all verified users in the current view of a thread or list.
  */
 export function detectPremiumUsers(): DetectedUser[] {
   const users = detectUsers().filter((u) => u.isVerified);
@@ -103,10 +317,7 @@ export class DetectService {
       }
     });
 
-    safeSendMessage({
-      type: "USERS_UPDATED",
-      data: { count: users.length },
-    });
+    emitEvent("USERS_UPDATED", { count: users.length });
   }
 
   public initService() {
@@ -0,0 +1,60 @@
+/**
+ * Report of a dry run: the run goes through detection, the targeting rules,
+ * the hover and the follow button lookup, but nothing is clicked. It lists
+ * who would have been followed, who was skipped and why, and whose follow
+ * control could not be found.
+ */
+import type { SkipRecord } from './filters';
+import type { FollowOutcome, FollowResult } from './followQueue';
+import type { PendingFollow } from './storage';
+
+export interface DryRunEntry {
+  handle: string;
+  displayName: string;
+  sourceUrl: string;
+  outcome: FollowOutcome;
+  detail?: string;
+  at: number;
+}
+
+export interface DryRunReport {
+  runId: string;
+  startedAt: number;
+  sessionUrl: string | null;
+  updatedAt: number;
+  wouldFollow: DryRunEntry[];
+  // Rejected by the targeting rules, or already followed on X
+  skipped: SkipRecord[];
+  // No follow control resolved: hover card missing, button not found, errors
+  unresolved: DryRunEntry[];
+}
+
+export function createDryRunReport(runId: string, startedAt: number, sessionUrl: string | null): DryRunReport {
+  return { runId, startedAt, sessionUrl, updatedAt: startedAt, wouldFollow: [], skipped: [], unresolved: [] };
+}
+
+/**
+ * Files the result of one dry-run attempt under the report's lists.
+ */
+export function addDryRunResult(report: DryRunReport, pending: PendingFollow, result: FollowResult, at: number) {
+  if (result.outcome === 'already_following') {
+    report.skipped.push({
+      handle: pending.handle,
+      rule: 'alreadyFollowed',
+      reason: 'Already following on X',
+      threadUrl: pending.sourceUrl,
+      at,
+    });
+  } else {
+    const entry: DryRunEntry = {
+      handle: pending.handle,
+      displayName: pending.displayName,
+      sourceUrl: pending.sourceUrl,
+      outcome: result.outcome,
+      detail: result.detail,
+      at,
+    };
+    (result.outcome === 'would_follow' ? report.wouldFollow : report.unresolved).push(entry);
+  }
+  report.updatedAt = at;
+}
@@ -0,0 +1,161 @@
+/**
+ * Structured activity log: what detection and runs did, user by user, kept
+ * in a ring buffer in storage for the popup's timeline. The background owns
+ * the buffer; other contexts hand their events to it through a sink.
+ */
+import { clock } from './clock';
+import logger, { LOG_LEVELS, type LogLevelName } from './logger';
+import { getEventLog, setEventLog } from './storage';
+
+export type EventType =
+  | 'detected'
+  | 'filtered'
+  | 'queued'
+  | 'hovered'
+  | 'clicked'
+  | 'verified'
+  | 'failed'
+  | 'rate_limited'
+  | 'daily_limit';
+
+export const EVENT_TYPES: EventType[] = [
+  'detected',
+  'filtered',
+  'queued',
+  'hovered',
+  'clicked',
+  'verified',
+  'failed',
+  'rate_limited',
+  'daily_limit',
+];
+
+// Events below the log level setting are not kept
+export const EVENT_LEVELS: Record<EventType, Exclude<LogLevelName, 'silent'>> = {
+  detected: 'debug',
+  hovered: 'debug',
+  clicked: 'debug',
+  filtered: 'info',
+  queued: 'info',
+  verified: 'info',
+  failed: 'warn',
+  rate_limited: 'warn',
+  daily_limit: 'warn',
+};
+
+export const EVENT_LOG_SIZE = 500;
+
+export interface ActivityEvent {
+  at: number;
+  type: EventType;
+  handle?: string;
+  message: string;
+  // Outcome, rule, pause end and the like
+  data?: Record<string, string | number | boolean | null>;
+}
+
+export interface EventFilter {
+  // Every type when empty
+  types: EventType[];
+  // Substring of the handle, case-insensitive
+  handle: string;
+}
+
+export function isLoggedAt(type: EventType, level: LogLevelName): boolean {
+  return LOG_LEVELS.indexOf(EVENT_LEVELS[type]) >= LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Newest first.
+ */
+export function filterEvents(events: ActivityEvent[], filter: EventFilter): ActivityEvent[] {
+  const handle = filter.handle.trim().replace(/^@/, '').toLowerCase();
+  return events
+    .filter(e => filter.types.length === 0 || filter.types.includes(e.type))
+    .filter(e => !handle || (e.handle || '').toLowerCase().includes(handle))
+    .reverse();
+}
+
+type EventSink = (event: ActivityEvent) => void;
+
+let sink: EventSink = () => { };
+
+/**
+ * Where `recordEvent` delivers to; `null` drops events again.
+ */
+export function setEventSink(next: EventSink | null) {
+  sink = next || (() => { });
+}
+
+export function recordEvent(
+  type: EventType,
+  message: string,
+  fields: Pick<ActivityEvent, 'handle' | 'data'> = {},
+) {
+  sink({ at: clock.now(), type, message, ...fields });
+}
+
+export class EventLog {
+  private events: ActivityEvent[] = [];
+  private level: LogLevelName = 'info';
+  private saving: Promise<void> | null = null;
+  private dirty = false;
+  // Nothing is written before the persisted log is read, or it would be lost
+  private loaded = false;
+
+  constructor(private size: number = EVENT_LOG_SIZE) { }
+
+  /**
+   * Loads the persisted log; events recorded meanwhile are kept after it.
+   */
+  public async init(): Promise<void> {
+    this.events = [...(await getEventLog()), ...this.events].slice(-this.size);
+    this.loaded = true;
+    if (this.dirty) this.persist();
+  }
+
+  public setLevel(level: LogLevelName) {
+    this.level = level;
+  }
+
+  public record(event: ActivityEvent) {
+    if (!isLoggedAt(event.type, this.level)) return;
+    this.events.push(event);
+    if (this.events.length > this.size) this.events.splice(0, this.events.length - this.size);
+    this.persist();
+  }
+
+  /**
+   * Oldest first.
+   */
+  public getEvents(): ActivityEvent[] {
+    return [...this.events];
+  }
+
+  public async clear(): Promise<void> {
+    this.events = [];
+    this.persist();
+    await this.flush();
+  }
+
+  public async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  // Detection comes in bursts; writes made meanwhile are folded into one
+  private persist() {
+    this.dirty = true;
+    if (this.saving || !this.loaded) return;
+    this.saving = (async () => {
+      while (this.dirty) {
+        this.dirty = false;
+        try {
+          await setEventLog([...this.events]);
+        } catch (e) {
+          logger.error('[xfollow] Failed to save the event log', e);
+        }
+      }
+      this.saving = null;
+    })();
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Rule-based targeting: decides which detected users are eligible for the
+ * follow queue and records why the others were skipped.
+ */
+import type { DetectedUser } from "../utils/detector";
+import { isListSurface } from "../utils/surface";
+import { BADGE_LABELS, BADGE_TYPES, type BadgeType } from "../utils/badges";
+
+export interface FilterRules {
+  // When non-empty, only these handles are followed
+  allowHandles: string[];
+  denyHandles: string[];
+  // Checkmarks whose accounts are followed
+  badgeTypes: BadgeType[];
+  // Plain keywords match case-insensitively; `/pattern/flags` entries are regex
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  directRepliesOnly: boolean;
+  // 0 means no cap
+  maxFollowsPerThread: number;
+}
+
+export type FilterRuleId =
+  | "allowlist"
+  | "denylist"
+  | "badgeType"
+  | "includeKeywords"
+  | "excludeKeywords"
+  | "directRepliesOnly"
+  | "threadCap"
+  | "alreadyFollowed";
+
+export interface FilterContext {
+  threadUrl: string;
+  // Users already queued from this thread
+  queuedInThread: number;
+}
+
+export interface FilterDecision {
+  allowed: boolean;
+  rule?: FilterRuleId;
+  reason?: string;
+}
+
+export interface SkipRecord {
+  handle: string;
+  rule: FilterRuleId;
+  reason: string;
+  threadUrl: string;
+  at: number;
+}
+
+export const DEFAULT_FILTER_RULES: FilterRules = {
+  allowHandles: [],
+  denyHandles: [],
+  badgeTypes: [...BADGE_TYPES],
+  includeKeywords: [],
+  excludeKeywords: [],
+  directRepliesOnly: false,
+  maxFollowsPerThread: 0,
+};
+
+/**
+ * `@handle`, lower-cased: the form handles are compared and stored in.
+ */
+export function normalizeHandle(handle: string): string {
+  const trimmed = handle.trim().toLowerCase();
+  return trimmed.startsWith("@") ? trimmed : `@${trimmed}`;
+}
+
+/**
+ * Builds a matcher for a keyword entry. Entries written as `/pattern/flags`
+ * are compiled as regex; an invalid regex never matches. The `g` and `y`
+ * flags are dropped: they make `test` resume from the last match.
+ */
+export function compileKeyword(entry: string): (text: string) => boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(entry.trim());
+  if (regex) {
+    try {
+      const re = new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+      return (text) => re.test(text);
+    } catch (e) {
+      return () => false;
+    }
+  }
+  const needle = entry.trim().toLowerCase();
+  return (text) => needle.length > 0 && text.toLowerCase().includes(needle);
+}
+
+function findKeyword(entries: string[], texts: string[]): string | undefined {
+  return entries.find((entry) => {
+    const matches = compileKeyword(entry);
+    return texts.some((t) => matches(t));
+  });
+}
+
+/**
+ * The targeting rules that are switched on; recorded with each follow so
+ * the follow-back audit can compare them.
+ */
+export function activeRules(rules: FilterRules): FilterRuleId[] {
+  const active: FilterRuleId[] = [];
+  if (rules.allowHandles.length > 0) active.push("allowlist");
+  if (rules.denyHandles.length > 0) active.push("denylist");
+  if (BADGE_TYPES.some((type) => !rules.badgeTypes.includes(type))) active.push("badgeType");
+  if (rules.includeKeywords.length > 0) active.push("includeKeywords");
+  if (rules.excludeKeywords.length > 0) active.push("excludeKeywords");
+  if (rules.directRepliesOnly) active.push("directRepliesOnly");
+  if (rules.maxFollowsPerThread > 0) active.push("threadCap");
+  return active;
+}
+
+/**
+ * Applies the rules in a fixed order; the first rule that rejects the user
+ * is reported.
+ */
+export function evaluateFilters(
+  user: Pick<DetectedUser, "handle" | "displayName" | "replyText" | "bio" | "isDirectReply"> &
+    Partial<Pick<DetectedUser, "surface" | "badgeType">>,
+  rules: FilterRules,
+  context: FilterContext
+): FilterDecision {
+  const handle = normalizeHandle(user.handle);
+  const texts = [user.displayName || "", user.replyText || "", user.bio || ""];
+
+  if (rules.denyHandles.some((h) => normalizeHandle(h) === handle)) {
+    return { allowed: false, rule: "denylist", reason: `${user.handle} is denylisted` };
+  }
+
+  if (
+    rules.allowHandles.length > 0 &&
+    !rules.allowHandles.some((h) => normalizeHandle(h) === handle)
+  ) {
+    return { allowed: false, rule: "allowlist", reason: `${user.handle} is not on the allowlist` };
+  }
+
+  if (user.badgeType && !rules.badgeTypes.includes(user.badgeType)) {
+    return { allowed: false, rule: "badgeType", reason: `${BADGE_LABELS[user.badgeType]} badges are not followed` };
+  }
+
+  const excluded = findKeyword(rules.excludeKeywords, texts);
+  if (excluded !== undefined) {
+    return { allowed: false, rule: "excludeKeywords", reason: `Matched "${excluded}"` };
+  }
+
+  if (
+    rules.includeKeywords.length > 0 &&
+    findKeyword(rules.includeKeywords, texts) === undefined
+  ) {
+    return { allowed: false, rule: "includeKeywords", reason: "No include keyword matched" };
+  }
+
+  // Users of a list replied to nothing, so the rule does not apply to them
+  if (rules.directRepliesOnly && !user.isDirectReply && !isListSurface(user.surface)) {
+    return { allowed: false, rule: "directRepliesOnly", reason: "Not a direct reply to the original post" };
+  }
+
+  if (
+    rules.maxFollowsPerThread > 0 &&
+    context.queuedInThread >= rules.maxFollowsPerThread
+  ) {
+    return {
+      allowed: false,
+      rule: "threadCap",
+      reason: `Thread cap of ${rules.maxFollowsPerThread} reached`,
+    };
+  }
+
+  return { allowed: true };
+}
@@ -2,12 +2,122 @@
  * Manages a queue of follow actions with randomized delays.
  */
 import { sleepRandom } from "./index";
-import { setRateLimitState, clearRateLimitState, incrementDailyFollowCount, isDailyLimitReached, setDailyLimitState, clearDailyLimitState } from "./storage";
+import { clock, LOCAL_MIDNIGHT, nextDayStart, type DayBoundary } from "./clock";
+import { recordAnalytics } from "./analytics";
+import { recordEvent } from "./eventLog";
+import { backoffDelay, DEFAULT_RATE_WINDOWS, SlidingWindowLimiter, type BackoffOptions, type RateWindow } from "./rateLimiter";
+import {
+  setRateLimitState,
+  clearRateLimitState,
+  incrementDailyFollowCount,
+  setDailyLimitState,
+  clearDailyLimitState,
+  setRecentFollows,
+  setBackoffState,
+  clearBackoffState,
+  type RateLimitState,
+} from "./storage";
 export type QueueStatus = 'idle' | 'running' | 'paused' | 'stopped' | 'rate_limited' | 'daily_limit_reached';
 
+/**
+ * Result of a single follow attempt. `followed` and `pending` (a request sent
+ * to a protected account) are the only outcomes that count as a follow;
+ * `would_follow` is a dry run that found the follow control.
+ */
+export type FollowOutcome =
+  | 'followed'
+  | 'pending'
+  | 'already_following'
+  | 'button_not_found'
+  | 'hover_card_missing'
+  | 'no_effect'
+  | 'would_follow'
+  | 'error';
+
+export const FOLLOW_OUTCOMES: FollowOutcome[] = [
+  'followed',
+  'pending',
+  'already_following',
+  'button_not_found',
+  'hover_card_missing',
+  'no_effect',
+  'would_follow',
+  'error',
+];
+
+export function isFollowOutcome(value: unknown): value is FollowOutcome {
+  return FOLLOW_OUTCOMES.includes(value as FollowOutcome);
+}
+
+export interface FollowResult {
+  outcome: FollowOutcome;
+  detail?: string;
+  // The user's follow control is not on the executing page
+  notOnPage?: boolean;
+}
+
+export type OutcomeCounts = Record<FollowOutcome, number>;
+
+export function isSuccessfulOutcome(outcome: FollowOutcome): boolean {
+  return outcome === 'followed' || outcome === 'pending';
+}
+
+export function emptyOutcomeCounts(): OutcomeCounts {
+  return Object.fromEntries(FOLLOW_OUTCOMES.map(o => [o, 0])) as OutcomeCounts;
+}
+
 export interface FollowTask {
   handle: string;
-  onExecute: () => Promise<boolean>;
+  onExecute: () => Promise<FollowResult>;
+}
+
+export type PausableStatus = 'running' | 'rate_limited' | 'daily_limit_reached';
+
+export type QueueTimerName = 'rate_limit' | 'daily_limit';
+
+/**
+ * Schedules the long waits (rate-limit pause, daily reset). The default uses
+ * setTimeout; the background swaps in alarms so they survive worker suspension.
+ * Whoever owns the timers calls `FollowQueue.handleTimer` when one fires.
+ */
+export interface QueueTimers {
+  schedule(name: QueueTimerName, at: number): void;
+  cancel(name: QueueTimerName): void;
+}
+
+/**
+ * Plain-data counters of a queue, persisted so a run can be rebuilt.
+ */
+export interface QueueSnapshot {
+  status: QueueStatus;
+  processed: number;
+  success: number;
+  outcomes: OutcomeCounts;
+  // Status a paused queue returns to on resume
+  pausedFrom?: PausableStatus;
+}
+
+export interface FollowQueueOptions {
+  minDelay?: number;
+  maxDelay?: number;
+  rateWindows?: RateWindow[];
+  // Successful follow times from storage, so windows span runs
+  recentFollows?: number[];
+  backoff?: BackoffOptions;
+  // Limits X reported in a row before this queue was built
+  backoffLevel?: number;
+  dailyFollowLimit?: number;
+  todayCount?: number;
+  // When the daily limit resets
+  dayBoundary?: DayBoundary;
+  // Nothing is followed, so the rate windows do not hold the queue back
+  dryRun?: boolean;
+  // Account whose stats and limits are written; the active one when left out
+  account?: string | null;
+  snapshot?: QueueSnapshot;
+  timers?: QueueTimers;
+  // Called whenever counters, status or pending tasks change
+  onChange?: () => void;
 }
 
 export class FollowQueue {
@@ -15,54 +125,118 @@ export class FollowQueue {
   private status: QueueStatus = 'idle';
   private processedCount = 0;
   private successCount = 0;
-  private successSinceLastPause = 0;
-  private resumeTimer: NodeJS.Timeout | null = null;
-  private pauseUntil: number | null = null;
+  private outcomes: OutcomeCounts = emptyOutcomeCounts();
+  private limiter: SlidingWindowLimiter;
+  private backoff: BackoffOptions = { baseMs: 900000, maxMs: 86400000 };
+  private backoffLevel = 0;
+  private rateLimit: RateLimitState | null = null;
+  private pausedFrom: PausableStatus = 'running';
   private todayFollowCount = 0;
-  private dailyLimitTimer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private timers: QueueTimers;
+  private onChange: () => void;
 
   // Configuration
   private minDelay = 1000;
   private maxDelay = 3000;
-  private pauseThreshold = 10;
-  private pauseDuration = 600000;
   private dailyLimit = 100;
+  private dayBoundary: DayBoundary = LOCAL_MIDNIGHT;
+  private dryRun = false;
+  private account?: string | null;
 
-  constructor(options?: { minDelay?: number; maxDelay?: number; rateLimitThreshold?: number; rateLimitDuration?: number; dailyFollowLimit?: number; todayCount?: number; }) {
+  constructor(options?: FollowQueueOptions) {
     if (options?.minDelay) this.minDelay = options.minDelay;
     if (options?.maxDelay) this.maxDelay = options.maxDelay;
-    if (options?.rateLimitThreshold) this.pauseThreshold = options.rateLimitThreshold;
-    if (options?.rateLimitDuration) this.pauseDuration = options.rateLimitDuration;
+    this.limiter = new SlidingWindowLimiter(options?.rateWindows || DEFAULT_RATE_WINDOWS, options?.recentFollows);
+    if (options?.backoff) this.backoff = options.backoff;
+    if (options?.backoffLevel) this.backoffLevel = options.backoffLevel;
     if (options?.dailyFollowLimit) this.dailyLimit = options.dailyFollowLimit;
     if (options?.todayCount !== undefined) this.todayFollowCount = options.todayCount;
+    if (options?.dayBoundary) this.dayBoundary = options.dayBoundary;
+    if (options?.dryRun) this.dryRun = true;
+    if (options?.account !== undefined) this.account = options.account;
+    if (options?.snapshot) {
+      this.processedCount = options.snapshot.processed;
+      this.successCount = options.snapshot.success;
+      this.outcomes = { ...emptyOutcomeCounts(), ...options.snapshot.outcomes };
+      this.pausedFrom = options.snapshot.pausedFrom || 'running';
+    }
+    this.timers = options?.timers || this.createTimeoutTimers();
+    this.onChange = options?.onChange || (() => { });
+  }
+
+  private createTimeoutTimers(): QueueTimers {
+    const handles = new Map<QueueTimerName, ReturnType<typeof setTimeout>>();
+    return {
+      schedule: (name, at) => {
+        clearTimeout(handles.get(name));
+        handles.set(name, setTimeout(() => {
+          handles.delete(name);
+          this.handleTimer(name);
+        }, Math.max(0, at - clock.now())));
+      },
+      cancel: (name) => {
+        clearTimeout(handles.get(name));
+        handles.delete(name);
+      },
+    };
   }
 
   public add(task: FollowTask) {
     if (this.queue.some(t => t.handle === task.handle)) return; // Avoid duplicates
     this.queue.push(task);
+    this.onChange();
+  }
+
+  public getPendingHandles(): string[] {
+    return this.queue.map(t => t.handle);
   }
 
   public async start() {
     if (this.status === 'running') return;
     this.status = 'running';
+    this.onChange();
     this.process();
   }
 
+  /**
+   * Holds the queue without dropping anything: pending tasks, counters and
+   * limit timers are kept and `resume()` continues where it left off. A task
+   * already in flight still completes. Pausing an idle queue holds it until
+   * resumed.
+   */
   public pause() {
+    if (this.status === 'paused' || this.status === 'stopped') return;
+    this.pausedFrom = this.status === 'idle' ? 'running' : this.status;
     this.status = 'paused';
+    this.onChange();
+  }
+
+  public resume() {
+    if (this.status !== 'paused') return;
+    this.status = this.pausedFrom;
+    this.pausedFrom = 'running';
+    this.onChange();
+    if (this.status === 'running') this.process();
+  }
+
+  /**
+   * Limit states reached while paused are applied on resume instead.
+   */
+  private enterStatus(status: PausableStatus) {
+    if (this.status === 'paused') {
+      this.pausedFrom = status;
+    } else {
+      this.status = status;
+    }
   }
 
   public stop() {
     this.status = 'stopped';
     this.queue = [];
-    if (this.resumeTimer) {
-      clearTimeout(this.resumeTimer);
-      this.resumeTimer = null;
-    }
-    if (this.dailyLimitTimer) {
-      clearTimeout(this.dailyLimitTimer);
-      this.dailyLimitTimer = null;
-    }
+    this.timers.cancel('rate_limit');
+    this.timers.cancel('daily_limit');
+    this.onChange();
   }
 
   public getStats() {
@@ -71,53 +245,112 @@ export class FollowQueue {
       remaining: this.queue.length,
       processed: this.processedCount,
       success: this.successCount,
+      outcomes: { ...this.outcomes },
       status: this.status
     };
   }
 
-  public updateRateLimitConfig(threshold: number, duration: number): void {
-    this.pauseThreshold = threshold;
-    this.pauseDuration = duration;
+  public getSnapshot(): QueueSnapshot {
+    return {
+      status: this.status,
+      processed: this.processedCount,
+      success: this.successCount,
+      outcomes: { ...this.outcomes },
+      pausedFrom: this.status === 'paused' ? this.pausedFrom : undefined,
+    };
   }
 
+  /**
+   * Usage of every rate window, and while rate limited why and until when.
+   * `binding` is the window holding the queue back, if any.
+   */
   public getRateLimitInfo() {
-    const isRateLimited = this.status === 'rate_limited';
+    const isRateLimited = this.status === 'rate_limited' ||
+      (this.status === 'paused' && this.pausedFrom === 'rate_limited');
+    const rateLimit = isRateLimited ? this.rateLimit : null;
+    const windows = this.limiter.usage();
+    const pauseUntil = rateLimit?.pauseUntil ?? null;
     return {
       isRateLimited,
-      pauseUntil: isRateLimited ? this.pauseUntil : null,
-      remainingMs: isRateLimited && this.pauseUntil ? Math.max(0, this.pauseUntil - Date.now()) : null,
-      threshold: this.pauseThreshold,
-      duration: this.pauseDuration,
-      successSincePause: this.successSinceLastPause
+      pauseUntil,
+      remainingMs: pauseUntil ? Math.max(0, pauseUntil - clock.now()) : null,
+      reason: rateLimit?.reason ?? null,
+      binding: windows.find(w => w.id === rateLimit?.windowId) || null,
+      windows,
+      backoffLevel: this.backoffLevel,
     };
   }
 
-  public async resumeAfterRateLimit(): Promise<void> {
-    this.successSinceLastPause = 0;
-    this.status = 'running';
-    this.pauseUntil = null;
-    if (this.resumeTimer) {
-      clearTimeout(this.resumeTimer);
-      this.resumeTimer = null;
+  /**
+   * Called by the timer owner when a scheduled wait is over.
+   */
+  public async handleTimer(name: QueueTimerName): Promise<void> {
+    const waitingFor = this.status === 'paused' ? this.pausedFrom : this.status;
+    if (name === 'rate_limit' && waitingFor === 'rate_limited') {
+      await this.resumeAfterRateLimit();
+    } else if (name === 'daily_limit' && waitingFor === 'daily_limit_reached') {
+      await clearDailyLimitState(this.account);
+      await this.resumeFromDailyLimit();
     }
   }
 
-  public async enterRateLimitState(pauseUntil: number, successCount: number): Promise<void> {
-    this.status = 'rate_limited';
-    this.pauseUntil = pauseUntil;
-    this.successSinceLastPause = successCount;
-    const remainingMs = pauseUntil - Date.now();
-    if (remainingMs > 0) {
-      await new Promise<void>(resolve => {
-        this.resumeTimer = setTimeout(() => {
-          this.resumeTimer = null;
-          this.successSinceLastPause = 0;
-          this.pauseUntil = null;
-          this.status = 'running';
-          resolve();
-        }, remainingMs);
-      });
+  public async resumeAfterRateLimit(): Promise<void> {
+    this.rateLimit = null;
+    this.timers.cancel('rate_limit');
+    await clearRateLimitState(this.account);
+    this.enterStatus('running');
+    this.onChange();
+    this.process();
+  }
+
+  /**
+   * Counts a follow attempt in the analytics; an account already followed on
+   * X counts as skipped only (see utils/analytics.ts). Dry runs are left out.
+   */
+  private async countAttempt(outcome: FollowOutcome): Promise<void> {
+    if (this.dryRun) return;
+    if (outcome === 'already_following') {
+      await recordAnalytics('skipped', this.account);
+      return;
     }
+    await recordAnalytics('attempted', this.account);
+    await recordAnalytics(isSuccessfulOutcome(outcome) ? 'succeeded' : 'failed', this.account);
+  }
+
+  /**
+   * Re-enter a rate-limit pause, e.g. one restored from storage.
+   */
+  public async enterRateLimitState(state: RateLimitState): Promise<void> {
+    this.enterStatus('rate_limited');
+    this.rateLimit = state;
+    this.timers.schedule('rate_limit', state.pauseUntil);
+    this.onChange();
+  }
+
+  private async limitUntil(state: RateLimitState): Promise<void> {
+    if (!this.dryRun) await recordAnalytics('rateLimited', this.account);
+    recordEvent('rate_limited', state.reason === 'backoff' ? 'X reported a limit' : `Rate window ${state.windowId} is full`, {
+      data: { reason: state.reason, windowId: state.windowId ?? null, pauseUntil: state.pauseUntil },
+    });
+    await setRateLimitState(state, this.account);
+    await this.enterRateLimitState(state);
+  }
+
+  /**
+   * X reported a limit: waits out a cooldown that doubles with every limit
+   * reported before a follow succeeds again. The cooldown is persisted, so it
+   * holds across runs and worker restarts. Returns false when the queue is
+   * not running a run and there is nothing to back off.
+   */
+  public async backOff(): Promise<boolean> {
+    if (this.status === 'stopped' || this.status === 'idle') return false;
+    this.backoffLevel++;
+    const now = clock.now();
+    await setBackoffState({ level: this.backoffLevel, lastHitAt: now }, this.account);
+    // A longer pause already under way is kept
+    const pauseUntil = Math.max(now + backoffDelay(this.backoffLevel, this.backoff), this.rateLimit?.pauseUntil ?? 0);
+    await this.limitUntil({ pauseUntil, reason: 'backoff' });
+    return true;
   }
 
   public updateDailyLimit(limit: number): void {
@@ -125,116 +358,117 @@ export class FollowQueue {
   }
 
   public getDailyLimitInfo() {
+    const isDailyLimited = this.status === 'daily_limit_reached' ||
+      (this.status === 'paused' && this.pausedFrom === 'daily_limit_reached');
     return {
-      isDailyLimited: this.status === 'daily_limit_reached',
+      isDailyLimited,
       todayCount: this.todayFollowCount,
       limit: this.dailyLimit,
       remaining: Math.max(0, this.dailyLimit - this.todayFollowCount),
-      resetAt: this.status === 'daily_limit_reached' ? this.getMidnightTimestamp() : null,
+      resetAt: isDailyLimited ? this.getDayResetTimestamp() : null,
     };
   }
 
   public async resumeFromDailyLimit(): Promise<void> {
     this.todayFollowCount = 0;
-    this.status = 'running';
-    if (this.dailyLimitTimer) {
-      clearTimeout(this.dailyLimitTimer);
-      this.dailyLimitTimer = null;
+    this.timers.cancel('daily_limit');
+    if (this.status === 'paused' && this.pausedFrom === 'daily_limit_reached') {
+      this.pausedFrom = 'running';
+      this.onChange();
+      return;
     }
+    if (this.status !== 'daily_limit_reached') return;
+    this.status = 'running';
+    this.onChange();
+    this.process();
   }
 
-  private getMidnightTimestamp(): number {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    return tomorrow.getTime();
+  private getDayResetTimestamp(): number {
+    return nextDayStart(clock.now(), this.dayBoundary);
   }
 
-  private async handleDailyLimitReached() {
-    this.status = 'daily_limit_reached';
-    const midnight = this.getMidnightTimestamp();
+  /**
+   * Enter the daily-limit state (also used to restore it) and wait for the
+   * next day to start.
+   */
+  public async handleDailyLimitReached() {
+    this.enterStatus('daily_limit_reached');
     await setDailyLimitState({
       isLimited: true,
-      limitReachedAt: Date.now()
-    });
-
-    const timeUntilMidnight = midnight - Date.now();
-
-    await new Promise<void>(resolve => {
-      this.dailyLimitTimer = setTimeout(async () => {
-        this.dailyLimitTimer = null;
-        this.todayFollowCount = 0;
-        this.status = 'running';
-        await clearDailyLimitState();
-        resolve();
-      }, timeUntilMidnight);
-    });
+      limitReachedAt: clock.now()
+    }, this.account);
+    this.timers.schedule('daily_limit', this.getDayResetTimestamp());
+    this.onChange();
   }
 
   private async process() {
-    while (this.status === 'running' || this.status === 'rate_limited') {
-      // Handle rate limit wait
-      if (this.status === 'rate_limited') {
-        await new Promise<void>(resolve => {
-          this.resumeTimer = setTimeout(() => {
-            this.resumeTimer = null;
-            resolve();
-          }, this.pauseDuration);
-        });
-        
-        // Reset counter and resume
-        this.successSinceLastPause = 0;
-        await clearRateLimitState();
-        this.status = 'running';
-        continue;
-      }
+    // A loop is already running; it picks up the new status
+    if (this.processing) return;
+    this.processing = true;
 
-      const task = this.queue.shift();
-      if (!task) {
-        await sleepRandom(500, 2000);
-        continue;
-      }
+    try {
+      while (this.status === 'running') {
+        const binding = this.queue.length > 0 && !this.dryRun ? this.limiter.binding() : null;
+        if (binding) {
+          await this.limitUntil({ pauseUntil: binding.availableAt!, reason: 'window', windowId: binding.id });
+          continue;
+        }
 
-      try {
-        const success = await task.onExecute();
-        this.processedCount++;
-        if (success) {
-          this.successCount++;
-          this.successSinceLastPause++;
+        const task = this.queue.shift();
+        if (!task) {
+          await sleepRandom(500, 2000);
+          continue;
+        }
 
-          await incrementDailyFollowCount();
-          this.todayFollowCount++;
+        try {
+          const result = await task.onExecute();
+          this.processedCount++;
+          this.outcomes[result.outcome]++;
+          await this.countAttempt(result.outcome);
+          if (isSuccessfulOutcome(result.outcome)) {
+            this.successCount++;
 
-          if (this.todayFollowCount >= this.dailyLimit) {
-            await this.handleDailyLimitReached();
-            continue;
-          }
+            await incrementDailyFollowCount(this.account);
+            this.todayFollowCount++;
+            this.limiter.record();
+            await setRecentFollows(this.limiter.getTimestamps(), this.account);
+            if (this.backoffLevel > 0) {
+              this.backoffLevel = 0;
+              await clearBackoffState(this.account);
+            }
 
-          if (this.successSinceLastPause >= this.pauseThreshold) {
-            this.status = 'rate_limited';
-            this.pauseUntil = Date.now() + this.pauseDuration;
-            await setRateLimitState({
-              pauseUntil: this.pauseUntil,
-              successSinceLastPause: this.successSinceLastPause
-            });
-            continue;
+            if (this.todayFollowCount >= this.dailyLimit) {
+              recordEvent('daily_limit', `Daily limit of ${this.dailyLimit} reached`, {
+                data: { limit: this.dailyLimit, resetAt: this.getDayResetTimestamp() },
+              });
+              await this.handleDailyLimitReached();
+              continue;
+            }
           }
-        }
+          this.onChange();
 
-        // Wait for a random delay before next task
-        if (this.queue.length > 0) {
-          const delay = Math.floor(Math.random() * (this.maxDelay - this.minDelay + 1)) + this.minDelay;
-          await new Promise(resolve => setTimeout(resolve, delay));
+          // Wait for a random delay before next task
+          if (this.queue.length > 0) {
+            const delay = Math.floor(Math.random() * (this.maxDelay - this.minDelay + 1)) + this.minDelay;
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        } catch (error) {
+          console.error(`Error processing follow for ${task.handle}:`, error);
+          recordEvent('failed', String(error), { handle: task.handle, data: { outcome: 'error' } });
+          this.processedCount++;
+          this.outcomes.error++;
+          await this.countAttempt('error');
+          this.onChange();
         }
-      } catch (error) {
-        console.error(`Error processing follow for ${task.handle}:`, error);
-        this.processedCount++;
       }
+    } finally {
+      this.processing = false;
     }
 
-    if (this.queue.length === 0) {
+    // A paused queue stays paused, even when nothing is left to do
+    if (this.queue.length === 0 && this.status === 'stopped') {
       this.status = 'idle';
+      this.onChange();
     }
   }
 }
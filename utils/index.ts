@@ -1,4 +1,6 @@
 import { DetectedUser } from "../utils/detector";
+import { matchesTarget, queryTarget } from "../utils/selectors";
+import { notifyBackground } from "../utils/protocol";
 
 /**
  * Pauses execution for a random duration between min and max seconds.
@@ -131,16 +133,68 @@ export async function removeHover(cx: number, cy: number, target: HTMLElement) {
 
 export function findFollowButton(user: DetectedUser) {
   try {
-    const exact = document.querySelector(
-      `button[aria-label="Follow ${user.handle}"]`,
-    ) as HTMLElement | null;
+    return queryTarget(document, "followButton", { handle: user.handle });
+  } catch (e) {
+    return null;
+  }
+}
 
-    return exact;
+export function findUnfollowButton(user: DetectedUser) {
+  try {
+    return queryTarget(document, "unfollowButton", { handle: user.handle });
   } catch (e) {
     return null;
   }
 }
 
+export function findHoverCard(): HTMLElement | null {
+  return queryTarget(document, "hoverCard");
+}
+
+export type FollowControlState = "follow" | "following" | "pending" | "unknown";
+
+/**
+ * Reads the state a follow control is showing from its text and aria-label.
+ */
+export function readFollowControlState(el: HTMLElement): FollowControlState {
+  const txt = (el.textContent || "").trim().toLowerCase();
+  const aria = ((el.getAttribute && el.getAttribute("aria-label")) || "").toLowerCase();
+  if (txt === "following" || aria.startsWith("following")) return "following";
+  if (txt === "pending" || aria.startsWith("pending")) return "pending";
+  if (/^follow(\s|$)/.test(txt) || /^follow(@|\s|$)/.test(aria)) return "follow";
+  return "unknown";
+}
+
+/**
+ * Whether `handle` shows the "Follows you" indicator, read from an open hover
+ * card or their profile page once its follow control has rendered. Returns
+ * null when neither is on the page before the timeout.
+ */
+export async function readFollowsBack(
+  handle: string,
+  timeoutMs = 10000
+): Promise<boolean | null> {
+  const profile = handle.replace(/^@/, "").toLowerCase();
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const onProfile =
+      location.pathname.split("/")[1]?.toLowerCase() === profile;
+    const roots = [findHoverCard(), onProfile ? document : null];
+    for (const root of roots) {
+      if (
+        root &&
+        (queryTarget(root, "followButton", { handle }) ||
+          queryTarget(root, "unfollowButton", { handle }))
+      ) {
+        return !!queryTarget(root, "followsYouIndicator");
+      }
+    }
+    await sleepRandom(400, 600);
+  }
+  return null;
+}
+
 export function findGlobalVisibleFollow(
   handle?: string,
   cx?: number,
@@ -186,14 +240,12 @@ export function findGlobalVisibleFollow(
     scored.push({ el, tid, aria, txt, cx: centerX, cy: centerY, dist });
   }
 
+  const isPackMatch = (el: HTMLElement) =>
+    !!handle && matchesTarget(el, "followButton", { handle });
+
   // Keep only follow-like candidates (avoid Reply / other controls)
   const followCandidates = scored.filter((s) => {
-    if (
-      handle &&
-      s.aria.trim().toLowerCase() ===
-      `follow ${handle}`.trim().toLowerCase()
-    )
-      return true;
+    if (isPackMatch(s.el)) return true;
     if (/-follow$/.test(s.tid)) return true;
     if (/\bfollow\b/i.test(s.aria) || /^follow$/i.test(s.txt)) return true;
     return false;
@@ -203,12 +255,7 @@ export function findGlobalVisibleFollow(
 
   // Rank candidates by priority and distance
   const prioritize = (s: (typeof followCandidates)[number]) => {
-    if (
-      handle &&
-      s.aria.trim().toLowerCase() ===
-      `follow ${handle}`.trim().toLowerCase()
-    )
-      return 0;
+    if (isPackMatch(s.el)) return 0;
     if (/-follow$/.test(s.tid)) return 1;
     if (/\bfollow\b/i.test(s.aria) || /^follow$/i.test(s.txt)) return 2;
     return 10;
@@ -259,40 +306,27 @@ export function looksLikeFollow(el: HTMLElement | null): boolean {
   return false;
 }
 
-export function safeSendMessage(msg: any) {
-  try {
-    if (
-      typeof browser !== "undefined" &&
-      browser.runtime &&
-      browser.runtime.sendMessage
-    ) {
-      return browser.runtime.sendMessage(msg).catch(() => { });
-    }
-  } catch (e) { }
-  return Promise.resolve();
-}
-
-export function monitorRateLimits(queue: FollowQueue) {
+/**
+ * Watches for X's limit toasts and reports them to the background, which
+ * decides what to do with the run.
+ */
+export function monitorRateLimits() {
   const observer = new MutationObserver((mutations) => {
-    if (!queue || queue.getStats().status !== "running") return;
     mutations.forEach((mutation) => {
       mutation.addedNodes.forEach((node) => {
         if (node instanceof HTMLElement) {
           const text = node.textContent?.toLowerCase() || "";
           const isToast =
-            node.getAttribute("data-testid") === "toast" ||
-            node.querySelector('[data-testid="toast"]');
-          const isAlert = node.getAttribute("role") === "alert";
+            matchesTarget(node, "toast") || !!queryTarget(node, "toast");
           if (
-            (isToast || isAlert) &&
+            isToast &&
             (text.includes("limit") ||
               text.includes("unable to follow"))
           ) {
             console.warn(
-              "[xfollow] Rate limit detected! Stopping queue."
+              "[xfollow] Rate limit detected! Backing off."
             );
-            queue.stop();
-            safeSendMessage({ type: "RATE_LIMIT_REACHED" });
+            notifyBackground("RATE_LIMIT_REACHED");
           }
         }
       });
@@ -300,6 +334,7 @@ export function monitorRateLimits(queue: FollowQueue) {
   });
 
   observer.observe(document.body, { childList: true, subtree: true });
+  return observer;
 }
 
 export function preventNav(e: Event, followButton: any) {
@@ -1,8 +1,20 @@
 import * as log from 'loglevel';
 
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: LogLevelName[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
 const logger = log.getLogger('xfollow');
 
-// Set default log level (can be adjusted later)
-logger.setLevel(log.levels.DEBUG);
+// Until the `logLevel` setting is read
+logger.setLevel(log.levels.INFO, false);
+
+/**
+ * Applies the `logLevel` setting; not persisted by loglevel, the setting is
+ * the source of truth.
+ */
+export function setLogLevel(level: LogLevelName) {
+  logger.setLevel(level, false);
+}
 
-export default logger;
\ No newline at end of file
+export default logger;
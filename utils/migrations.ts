@@ -0,0 +1,60 @@
+/**
+ * Ordered upgrades of the stored data, run by the background on install and
+ * update. Each one runs once: the version of the last migration that
+ * completed is kept under `schemaVersion`, and a failed one stops the run so
+ * it is retried with everything after it on the next update.
+ */
+import logger from './logger';
+import {
+  getSchemaVersion,
+  migrateFollowedUsers,
+  migrateLegacySettings,
+  repairStorage,
+  setSchemaVersion,
+} from './storage';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<unknown>;
+}
+
+// Append only; a released migration is never changed or renumbered
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Turn the followedUsers list into follow records',
+    migrate: migrateFollowedUsers,
+  },
+  {
+    version: 2,
+    description: 'Carry the fixed rate-limit pause over to the backoff',
+    migrate: migrateLegacySettings,
+  },
+  {
+    version: 3,
+    description: 'Drop stored values that do not match their schema',
+    migrate: repairStorage,
+  },
+];
+
+/**
+ * Runs the migrations newer than the stored version, in order. Returns the
+ * version the stored data is at afterwards.
+ */
+export async function runMigrations(migrations: Migration[] = MIGRATIONS): Promise<number> {
+  let version = await getSchemaVersion();
+  const pending = migrations.filter(m => m.version > version).sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    try {
+      await migration.migrate();
+    } catch (e) {
+      logger.error(`[xfollow] Migration ${migration.version} failed: ${migration.description}`, e);
+      break;
+    }
+    version = migration.version;
+    await setSchemaVersion(version);
+    logger.info(`[xfollow] Migrated stored data to version ${version}: ${migration.description}`);
+  }
+  return version;
+}
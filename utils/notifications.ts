@@ -0,0 +1,79 @@
+/**
+ * Opt-in desktop notifications for the moments a run needs attention: it
+ * finished its queue, a rate-limit pause started or ended, the daily limit
+ * was hit, or X showed a limit toast.
+ */
+import { browser } from 'wxt/browser';
+import type { QueueStatus } from './followQueue';
+import logger from './logger';
+import { getSettings } from './storage';
+
+export type RunNotice = 'run_complete' | 'rate_limit_start' | 'rate_limit_end' | 'daily_limit' | 'x_limit';
+
+export interface RunSnapshot {
+  status: QueueStatus;
+  remaining: number;
+  processed: number;
+  success: number;
+}
+
+/**
+ * Notices for the change from `prev` to `next`. A run is complete when its
+ * queue runs empty; it keeps waiting for users detected later.
+ */
+export function runNotices(prev: RunSnapshot | null, next: RunSnapshot): RunNotice[] {
+  if (!prev) return [];
+  const notices: RunNotice[] = [];
+  if (next.status === 'rate_limited' && prev.status !== 'rate_limited') notices.push('rate_limit_start');
+  if (prev.status === 'rate_limited' && next.status === 'running') notices.push('rate_limit_end');
+  if (next.status === 'daily_limit_reached' && prev.status !== 'daily_limit_reached') notices.push('daily_limit');
+  if (next.status === 'running' && prev.remaining > 0 && next.remaining === 0 && next.processed > prev.processed) {
+    notices.push('run_complete');
+  }
+  return notices;
+}
+
+const formatTime = (at: number | null) =>
+  at ? new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'later';
+
+export function noticeText(notice: RunNotice, run: RunSnapshot, until: number | null = null): { title: string; message: string } {
+  switch (notice) {
+    case 'run_complete':
+      return { title: 'Run finished', message: `${run.success} of ${run.processed} users followed` };
+    case 'rate_limit_start':
+      return { title: 'Rate limit pause', message: `Following resumes at ${formatTime(until)}` };
+    case 'rate_limit_end':
+      return { title: 'Rate limit pause over', message: 'Following resumed' };
+    case 'daily_limit':
+      return { title: 'Daily limit reached', message: `Following resumes at ${formatTime(until)}` };
+    case 'x_limit':
+      return { title: 'X reported a limit', message: 'X showed a rate limit warning; the run backs off' };
+  }
+}
+
+// A limit X reported and the pause it starts share one notification
+const NOTIFICATION_IDS: Record<RunNotice, string> = {
+  run_complete: 'xfollow:run',
+  rate_limit_start: 'xfollow:rate-limit',
+  rate_limit_end: 'xfollow:rate-limit',
+  daily_limit: 'xfollow:daily-limit',
+  x_limit: 'xfollow:rate-limit',
+};
+
+/**
+ * Shows `notice` when the notifications setting is on.
+ */
+export async function showNotice(notice: RunNotice, text: { title: string; message: string }): Promise<void> {
+  const { notifications } = await getSettings();
+  if (!notifications) return;
+  try {
+    await browser.notifications.create(NOTIFICATION_IDS[notice], {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icon/128.png'),
+      title: text.title,
+      message: text.message,
+    });
+  } catch (e) {
+    logger.warn('[xfollow] Failed to show a notification', e);
+  }
+}
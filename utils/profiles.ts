@@ -0,0 +1,97 @@
+/**
+ * Named settings profiles. Each profile holds a full `Settings` object,
+ * targeting rules included; activating one replaces the current settings
+ * and is remembered per account (see utils/storage.ts).
+ */
+import { DEFAULT_RATE_WINDOWS, type RateWindow } from './rateLimiter';
+import { getProfiles, getSettings, saveProfile, type Settings, type SettingsProfile } from './storage';
+
+export interface ProfilePreset {
+  id: string;
+  name: string;
+  description: string;
+  // Applied over the current settings, so targeting and time zone carry over
+  settings: Partial<Settings>;
+}
+
+const withLimits = (limits: number[]): RateWindow[] =>
+  DEFAULT_RATE_WINDOWS.map((window, i) => ({ ...window, limit: limits[i] }));
+
+export const PROFILE_PRESETS: ProfilePreset[] = [
+  {
+    id: 'conservative',
+    name: 'Conservative',
+    description: 'Slow pacing and low limits, for new or flagged accounts',
+    settings: {
+      minDelay: 4000,
+      maxDelay: 9000,
+      rateWindows: withLimits([5, 15, 50]),
+      dailyFollowLimit: 50,
+      backoffBase: 30 * 60 * 1000,
+    },
+  },
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'The default pacing and limits',
+    settings: {
+      minDelay: 1500,
+      maxDelay: 4000,
+      rateWindows: DEFAULT_RATE_WINDOWS,
+      dailyFollowLimit: 100,
+      backoffBase: 15 * 60 * 1000,
+    },
+  },
+  {
+    id: 'events',
+    name: 'Events',
+    description: 'Fast pacing and high limits, collecting across pages for busy threads',
+    settings: {
+      minDelay: 800,
+      maxDelay: 2000,
+      rateWindows: withLimits([20, 60, 200]),
+      dailyFollowLimit: 200,
+      backoffBase: 10 * 60 * 1000,
+      runScope: 'collect',
+    },
+  },
+];
+
+/**
+ * `name`, or `name 2`, `name 3`... when a profile already has it
+ */
+function uniqueName(name: string, profiles: SettingsProfile[]): string {
+  const taken = new Set(profiles.map(p => p.name));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} ${n}`;
+  return candidate;
+}
+
+/**
+ * Saves a new profile with the current settings, or a preset applied over
+ * them. The profile is not activated.
+ */
+export async function createProfile(name: string, presetId?: string): Promise<SettingsProfile> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Profile name is empty');
+  const preset = presetId ? PROFILE_PRESETS.find(p => p.id === presetId) : undefined;
+  if (presetId && !preset) throw new Error(`Unknown preset ${presetId}`);
+
+  const profile: SettingsProfile = {
+    id: crypto.randomUUID(),
+    name: uniqueName(trimmed, await getProfiles()),
+    settings: { ...(await getSettings()), ...preset?.settings },
+  };
+  await saveProfile(profile);
+  return profile;
+}
+
+export async function renameProfile(id: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Profile name is empty');
+  const profiles = await getProfiles();
+  const profile = profiles.find(p => p.id === id);
+  if (!profile) throw new Error(`Unknown profile ${id}`);
+  if (profile.name === trimmed) return;
+  await saveProfile({ ...profile, name: uniqueName(trimmed, profiles.filter(p => p.id !== id)) });
+}
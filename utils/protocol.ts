@@ -0,0 +1,299 @@
+/**
+ * Messages between the popup, the in-page panel, the content script and the
+ * background. Every message is an envelope `{ v, type, data }` checked
+ * against the receiver's schema, and every reply is `{ ok, data | error }`,
+ * so a sender always gets either a typed answer or a ProtocolError.
+ */
+import { browser, type Browser } from 'wxt/browser';
+import type { BadgeType } from './badges';
+import type { CandidateUser } from './detector';
+import { EVENT_TYPES, type ActivityEvent, type EventType } from './eventLog';
+import type { SkipRecord } from './filters';
+import type { FollowResult } from './followQueue';
+import logger from './logger';
+import type { RunController } from './runController';
+import type { SelectorTestResult } from './selectors';
+import type { PendingFollow } from './storage';
+
+// Bump when a message changes shape; a sender of another version is refused
+export const PROTOCOL_VERSION = 1;
+
+export type RunStatus = ReturnType<RunController['getStatus']> & {
+  detectedCount: number;
+  detectedByBadge: Partial<Record<BadgeType, number>>;
+};
+export type RateLimitInfo = ReturnType<RunController['getRateLimitInfo']>;
+export type DailyLimitInfo = ReturnType<RunController['getDailyLimitInfo']>;
+export type Backlog = ReturnType<RunController['getBacklog']>;
+
+export interface AuditStatus {
+  running: boolean;
+  checked: number;
+  total: number;
+}
+
+/**
+ * Requests the background answers, from the popup, the panel and the
+ * content script.
+ */
+export type BackgroundProtocol = {
+  GET_STATUS: { request: undefined; response: RunStatus };
+  GET_SKIPPED: { request: undefined; response: SkipRecord[] };
+  LIST_CANDIDATES: { request: undefined; response: CandidateUser[] };
+  GET_RATE_LIMIT_INFO: { request: undefined; response: RateLimitInfo };
+  GET_DAILY_LIMIT_INFO: { request: undefined; response: DailyLimitInfo };
+  RESET_DAILY_STATS: { request: undefined; response: { status: 'ok' } };
+  // Without handles every candidate is queued, including later ones
+  START_FOLLOW: { request: { handles?: string[] } | undefined; response: { status: 'started' | 'no_tab' } };
+  PAUSE_FOLLOW: { request: undefined; response: { status: 'paused' } };
+  RESUME_FOLLOW: { request: undefined; response: { status: 'resumed' } };
+  STOP_FOLLOW: { request: undefined; response: { status: 'stopped' } };
+  GET_BACKLOG: { request: undefined; response: Backlog };
+  RUN_SELECTOR_SELF_TEST: { request: undefined; response: SelectorTestResult[] };
+  RUN_FOLLOW_BACK_AUDIT: { request: undefined; response: AuditStatus };
+  GET_AUDIT_STATUS: { request: undefined; response: AuditStatus };
+  CANDIDATES_FOUND: { request: { users: CandidateUser[] }; response: void };
+  ROUTE_CHANGED: { request: { sessionUrl: string }; response: void };
+  RATE_LIMIT_REACHED: { request: undefined; response: void };
+  // Activity of the content script, kept in the background's log
+  LOG_EVENT: { request: ActivityEvent; response: void };
+  GET_EVENT_LOG: { request: undefined; response: ActivityEvent[] };
+  CLEAR_EVENT_LOG: { request: undefined; response: { status: 'cleared' } };
+  // The account logged in on the sender's page; runs and limits follow it
+  ACCOUNT_DETECTED: { request: { handle: string }; response: void };
+  // From the popup, to an account detected before
+  SWITCH_ACCOUNT: { request: { handle: string }; response: { status: 'switched' } };
+};
+
+/**
+ * Requests the content script of a tab answers, from the background.
+ */
+export type ContentProtocol = {
+  GET_CANDIDATES: { request: undefined; response: CandidateUser[] };
+  RUN_SELECTOR_SELF_TEST: { request: undefined; response: SelectorTestResult[] };
+  EXECUTE_FOLLOW: { request: PendingFollow; response: FollowResult };
+  CHECK_FOLLOWS_BACK: { request: { handle: string }; response: { followsBack: boolean | null } };
+};
+
+/**
+ * Broadcasts nobody answers; the popup listens while it is open.
+ */
+export type EventProtocol = {
+  USERS_UPDATED: { request: { count: number }; response: void };
+};
+
+type Protocol = Record<string, { request: unknown; response: unknown }>;
+
+export type RequestOf<P extends Protocol, K extends keyof P> = P[K]['request'];
+export type ResponseOf<P extends Protocol, K extends keyof P> = P[K]['response'];
+
+// The data argument is optional for messages without data
+type DataArgs<P extends Protocol, K extends keyof P> =
+  undefined extends RequestOf<P, K> ? [data?: RequestOf<P, K>] : [data: RequestOf<P, K>];
+
+export interface Envelope<P extends Protocol = Protocol, K extends keyof P = keyof P> {
+  v: number;
+  type: K;
+  data: RequestOf<P, K>;
+}
+
+export type Reply<T> = { ok: true; data: T } | { ok: false; error: string };
+
+/**
+ * Checks the data of each message type; true when it has the right shape.
+ */
+export type Schema<P extends Protocol> = { [K in keyof P]: (data: unknown) => boolean };
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const none = (data: unknown) => data === undefined || data === null;
+
+const hasHandle = (data: unknown) => isObject(data) && isString(data.handle);
+
+export const BACKGROUND_SCHEMA: Schema<BackgroundProtocol> = {
+  GET_STATUS: none,
+  GET_SKIPPED: none,
+  LIST_CANDIDATES: none,
+  GET_RATE_LIMIT_INFO: none,
+  GET_DAILY_LIMIT_INFO: none,
+  RESET_DAILY_STATS: none,
+  START_FOLLOW: data => none(data) ||
+    (isObject(data) && (data.handles === undefined || (Array.isArray(data.handles) && data.handles.every(isString)))),
+  PAUSE_FOLLOW: none,
+  RESUME_FOLLOW: none,
+  STOP_FOLLOW: none,
+  GET_BACKLOG: none,
+  RUN_SELECTOR_SELF_TEST: none,
+  RUN_FOLLOW_BACK_AUDIT: none,
+  GET_AUDIT_STATUS: none,
+  CANDIDATES_FOUND: data => isObject(data) && Array.isArray(data.users) && data.users.every(hasHandle),
+  ROUTE_CHANGED: data => isObject(data) && isString(data.sessionUrl),
+  RATE_LIMIT_REACHED: none,
+  LOG_EVENT: data => isObject(data) && EVENT_TYPES.includes(data.type as EventType) &&
+    typeof data.at === 'number' && isString(data.message),
+  GET_EVENT_LOG: none,
+  CLEAR_EVENT_LOG: none,
+  ACCOUNT_DETECTED: hasHandle,
+  SWITCH_ACCOUNT: hasHandle,
+};
+
+export const CONTENT_SCHEMA: Schema<ContentProtocol> = {
+  GET_CANDIDATES: none,
+  RUN_SELECTOR_SELF_TEST: none,
+  EXECUTE_FOLLOW: hasHandle,
+  CHECK_FOLLOWS_BACK: hasHandle,
+};
+
+export const EVENT_SCHEMA: Schema<EventProtocol> = {
+  USERS_UPDATED: data => isObject(data) && typeof data.count === 'number',
+};
+
+export function createEnvelope<P extends Protocol, K extends keyof P & string>(type: K, ...[data]: DataArgs<P, K>): Envelope<P, K> {
+  return { v: PROTOCOL_VERSION, type, data: data as RequestOf<P, K> };
+}
+
+/**
+ * Reads a message meant for `schema`. Returns null for messages of another
+ * schema (several listeners share `runtime.onMessage`), or the reason a
+ * message of this schema is refused.
+ */
+export function parseEnvelope<P extends Protocol>(
+  schema: Schema<P>,
+  message: unknown,
+): { ok: true; envelope: Envelope<P> } | { ok: false; error: string } | null {
+  if (!isObject(message) || !isString(message.type) || !Object.hasOwn(schema, message.type)) return null;
+  const type = message.type as keyof P & string;
+  if (message.v !== PROTOCOL_VERSION) {
+    return { ok: false, error: `${type} uses protocol version ${String(message.v)}, expected ${PROTOCOL_VERSION}` };
+  }
+  if (!schema[type](message.data)) {
+    return { ok: false, error: `${type} has invalid data` };
+  }
+  return { ok: true, envelope: message as unknown as Envelope<P> };
+}
+
+function unwrap<T>(type: string, reply: unknown): T {
+  if (!isObject(reply) || typeof reply.ok !== 'boolean') {
+    throw new ProtocolError(`No answer to ${type}`);
+  }
+  if (!reply.ok) {
+    throw new ProtocolError(`${type} failed: ${String(reply.error)}`);
+  }
+  return reply.data as T;
+}
+
+/**
+ * Sends a request to the background and resolves with its answer.
+ */
+export async function requestBackground<K extends keyof BackgroundProtocol & string>(
+  type: K,
+  ...args: DataArgs<BackgroundProtocol, K>
+): Promise<ResponseOf<BackgroundProtocol, K>> {
+  const reply = await browser.runtime.sendMessage(createEnvelope<BackgroundProtocol, K>(type, ...args));
+  return unwrap(type, reply);
+}
+
+/**
+ * Sends a request to the content script of `tabId`. Rejects with the
+ * browser's error while the tab has no content script listening.
+ */
+export async function requestTab<K extends keyof ContentProtocol & string>(
+  tabId: number,
+  type: K,
+  ...args: DataArgs<ContentProtocol, K>
+): Promise<ResponseOf<ContentProtocol, K>> {
+  const reply = await browser.tabs.sendMessage(tabId, createEnvelope<ContentProtocol, K>(type, ...args));
+  return unwrap(type, reply);
+}
+
+/**
+ * Tells the background something without waiting for it. Errors are
+ * dropped: a content script orphaned by an extension reload has nobody to
+ * tell.
+ */
+export function notifyBackground<K extends keyof BackgroundProtocol & string>(
+  type: K,
+  ...args: DataArgs<BackgroundProtocol, K>
+): void {
+  requestBackground(type, ...args).catch(() => { });
+}
+
+/**
+ * Broadcasts an event to whichever extension pages are open.
+ */
+export function emitEvent<K extends keyof EventProtocol & string>(type: K, data: RequestOf<EventProtocol, K>): void {
+  try {
+    browser.runtime.sendMessage(createEnvelope<EventProtocol, K>(type, data)).catch(() => { });
+  } catch (e) {
+    // Extension context invalidated
+  }
+}
+
+export type Handlers<P extends Protocol> = {
+  [K in keyof P]: (data: RequestOf<P, K>, sender: Browser.runtime.MessageSender) => ResponseOf<P, K> | Promise<ResponseOf<P, K>>;
+};
+
+export interface ServeOptions {
+  // Requests wait for this, e.g. state restored after the worker restarted
+  ready?: Promise<unknown>;
+}
+
+type LooseHandler = (data: unknown, sender: Browser.runtime.MessageSender) => unknown;
+
+/**
+ * Answers the requests of `schema` with `handlers`. Messages of other
+ * schemas are left to other listeners. Returns a function that stops
+ * listening.
+ */
+export function serve<P extends Protocol>(schema: Schema<P>, handlers: Handlers<P>, options: ServeOptions = {}): () => void {
+  const listener = (message: unknown, sender: Browser.runtime.MessageSender, sendResponse: (reply: Reply<unknown>) => void) => {
+    const parsed = parseEnvelope(schema, message);
+    if (!parsed) return;
+    if (!parsed.ok) {
+      logger.warn(`[xfollow] Refused message: ${parsed.error}`);
+      sendResponse(parsed);
+      return;
+    }
+
+    const { type, data } = parsed.envelope;
+    const handler = handlers[type] as LooseHandler;
+    Promise.resolve(options.ready)
+      .then(() => handler(data, sender))
+      .then((result) => sendResponse({ ok: true, data: result }))
+      .catch((error) => {
+        logger.error(`[xfollow] Failed to handle ${String(type)}`, error);
+        sendResponse({ ok: false, error: error instanceof Error ? error.message : String(error) });
+      });
+    // Keeps the channel open for the async answer
+    return true;
+  };
+
+  browser.runtime.onMessage.addListener(listener);
+  return () => browser.runtime.onMessage.removeListener(listener);
+}
+
+/**
+ * Calls the handlers of the events they cover. Returns a function that
+ * stops listening.
+ */
+export function listen(handlers: Partial<Handlers<EventProtocol>>): () => void {
+  const listener = (message: unknown, sender: Browser.runtime.MessageSender) => {
+    const parsed = parseEnvelope(EVENT_SCHEMA, message);
+    if (!parsed?.ok) return;
+    const handler = handlers[parsed.envelope.type] as LooseHandler | undefined;
+    handler?.(parsed.envelope.data, sender);
+  };
+
+  browser.runtime.onMessage.addListener(listener);
+  return () => browser.runtime.onMessage.removeListener(listener);
+}
@@ -0,0 +1,89 @@
+/**
+ * Sliding-window follow limits and the backoff applied when X itself reports
+ * a limit.
+ */
+import { clock } from './clock';
+
+export interface RateWindow {
+  id: string;
+  label: string;
+  durationMs: number;
+  // Follows allowed within any `durationMs` span
+  limit: number;
+}
+
+export interface WindowUsage extends RateWindow {
+  used: number;
+  // When the window has room again; null while it has room
+  availableAt: number | null;
+}
+
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+}
+
+export const DEFAULT_RATE_WINDOWS: RateWindow[] = [
+  { id: '15m', label: '15 minutes', durationMs: 15 * 60 * 1000, limit: 10 },
+  { id: '1h', label: 'hour', durationMs: 60 * 60 * 1000, limit: 30 },
+  { id: '24h', label: '24 hours', durationMs: 24 * 60 * 60 * 1000, limit: 100 },
+];
+
+/**
+ * Cooldown after the `level`-th limit X reported in a row: the base doubles
+ * each time, up to the max.
+ */
+export function backoffDelay(level: number, options: BackoffOptions): number {
+  return Math.min(options.maxMs, options.baseMs * 2 ** Math.max(0, level - 1));
+}
+
+export class SlidingWindowLimiter {
+  private timestamps: number[];
+
+  constructor(private windows: RateWindow[], timestamps: number[] = []) {
+    this.timestamps = [...timestamps].sort((a, b) => a - b);
+  }
+
+  public record(at: number = clock.now()) {
+    this.timestamps.push(at);
+    this.prune(at);
+  }
+
+  /**
+   * Follow times still inside the longest window, oldest first.
+   */
+  public getTimestamps(): number[] {
+    return [...this.timestamps];
+  }
+
+  public usage(now: number = clock.now()): WindowUsage[] {
+    return this.windows.map(window => {
+      const inWindow = this.timestamps.filter(t => t > now - window.durationMs);
+      const used = inWindow.length;
+      // The oldest follows have to leave the window until one more fits
+      const availableAt = window.limit > 0 && used >= window.limit
+        ? inWindow[used - window.limit] + window.durationMs
+        : null;
+      return { ...window, used, availableAt };
+    });
+  }
+
+  /**
+   * The window that holds the next follow back the longest, or null when a
+   * follow fits every window now.
+   */
+  public binding(now: number = clock.now()): WindowUsage | null {
+    let binding: WindowUsage | null = null;
+    for (const usage of this.usage(now)) {
+      if (usage.availableAt !== null && (!binding || usage.availableAt > binding.availableAt!)) {
+        binding = usage;
+      }
+    }
+    return binding;
+  }
+
+  private prune(now: number) {
+    const longest = Math.max(0, ...this.windows.map(w => w.durationMs));
+    this.timestamps = this.timestamps.filter(t => t > now - longest);
+  }
+}
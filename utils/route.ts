@@ -0,0 +1,49 @@
+/**
+ * X is a single-page app: threads and profiles are history entries of one
+ * document. Detection is split into sessions keyed by the page's URL so users
+ * of one thread are not mixed with the next.
+ */
+import { getThreadContext } from "../utils/detector";
+
+/**
+ * The session a page belongs to: the canonical status URL on thread pages
+ * (so `/photo/1` and friends stay in their thread), the path elsewhere.
+ */
+export function sessionUrl(href: string): string {
+  const url = new URL(href);
+  const thread = getThreadContext(url.pathname);
+  return thread
+    ? `${url.origin}/${thread.opHandle.slice(1)}/status/${thread.statusId}`
+    : `${url.origin}${url.pathname}`;
+}
+
+/**
+ * Calls `callback` with the new URL whenever the page navigates without a
+ * reload. The page's own `history.pushState` is out of reach of a content
+ * script, so besides back/forward this relies on the Navigation API where
+ * available and on the DOM updates X makes on every route change.
+ */
+export function watchRoute(callback: (href: string) => void, win: Window = window) {
+  let current = win.location.href;
+  const check = () => {
+    const next = win.location.href;
+    if (next !== current) {
+      current = next;
+      callback(next);
+    }
+  };
+
+  const observer = new MutationObserver(check);
+  observer.observe(win.document, { childList: true, subtree: true });
+  win.addEventListener("popstate", check);
+  const navigation = (win as Window & { navigation?: EventTarget }).navigation;
+  navigation?.addEventListener("navigatesuccess", check);
+
+  return {
+    disconnect() {
+      observer.disconnect();
+      win.removeEventListener("popstate", check);
+      navigation?.removeEventListener("navigatesuccess", check);
+    },
+  };
+}
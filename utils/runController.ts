@@ -0,0 +1,603 @@
+/**
+ * Background-owned follow run. Holds the FollowQueue, the pending handles and
+ * the limit timers; each follow is delegated to the content script of the
+ * run's tab, which only acts as an executor.
+ */
+import { browser } from 'wxt/browser';
+import { recordAnalytics } from './analytics';
+import { clock } from './clock';
+import type { CandidateUser } from './detector';
+import { addDryRunResult, createDryRunReport, type DryRunReport } from './dryRun';
+import { recordEvent } from './eventLog';
+import { activeRules, evaluateFilters, type FilterDecision, type FilterRuleId, type SkipRecord } from './filters';
+import { FollowQueue, type FollowOutcome, type FollowResult, type FollowTask, type QueueTimerName, type QueueTimers } from './followQueue';
+import logger from './logger';
+import { requestTab } from './protocol';
+import { isWithinSchedule } from './schedule';
+import {
+  checkAndResetDailyStats,
+  clearRateLimitState,
+  clearRunState,
+  getActiveAccount,
+  getActiveProfile,
+  getBackoffState,
+  getDailyLimitState,
+  getDailyStats,
+  getDryRunReport,
+  getRateLimitState,
+  getRecentFollows,
+  getRunState,
+  getSettings,
+  isFollowed,
+  markAsFollowed,
+  resetDailyStats,
+  setDryRunReport,
+  setRunState,
+  type PendingFollow,
+  type RunState,
+} from './storage';
+
+export type FollowExecutor = (tabId: number, pending: PendingFollow) => Promise<FollowResult>;
+
+export const ALARM_PREFIX = 'xfollow:';
+
+/**
+ * Queue timers backed by `browser.alarms`, so a rate-limit pause or the
+ * daily reset still fires after the service worker was suspended.
+ */
+export function createAlarmTimers(): QueueTimers {
+  return {
+    schedule: (name, at) => {
+      browser.alarms.create(`${ALARM_PREFIX}${name}`, { when: at });
+    },
+    cancel: (name) => {
+      browser.alarms.clear(`${ALARM_PREFIX}${name}`);
+    },
+  };
+}
+
+export function alarmToTimerName(alarmName: string): QueueTimerName | null {
+  if (!alarmName.startsWith(ALARM_PREFIX)) return null;
+  const name = alarmName.slice(ALARM_PREFIX.length);
+  return name === 'rate_limit' || name === 'daily_limit' ? name : null;
+}
+
+export function profileUrl(handle: string): string {
+  return `https://x.com/${handle.replace(/^@/, '')}`;
+}
+
+/**
+ * Sends a follow to the tab's content script. Retries while the tab is
+ * reloading and its content script is not listening yet. When the user is not
+ * on the current page the tab is sent to their profile once, and back to the
+ * page it was on once the follow is done.
+ */
+export async function executeInTab(tabId: number, pending: PendingFollow): Promise<FollowResult> {
+  let returnUrl: string | null = null;
+  try {
+    for (let attempt = 0; attempt < 15; attempt++) {
+      try {
+        const result = await requestTab(tabId, 'EXECUTE_FOLLOW', pending);
+        if (result.notOnPage && returnUrl === null) {
+          returnUrl = (await browser.tabs.get(tabId)).url ?? '';
+          await browser.tabs.update(tabId, { url: profileUrl(pending.handle) });
+        } else if (!result.notOnPage) {
+          return result;
+        }
+        // Otherwise the old page answered before the profile replaced it
+      } catch (e) {
+        // Receiving end does not exist yet, or the page answered with an error
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    return returnUrl !== null
+      ? { outcome: 'button_not_found', detail: 'Profile did not show a follow control' }
+      : { outcome: 'error', detail: 'Tab did not respond' };
+  } finally {
+    if (returnUrl) {
+      try {
+        await browser.tabs.update(tabId, { url: returnUrl });
+      } catch (e) {
+        // Closed by the user
+      }
+    }
+  }
+}
+
+type RunMeta = Omit<RunState, 'pending' | 'queue'>;
+
+// Pauses the controller puts on a run by itself, lifted once none is left
+type HoldReason = 'routePaused' | 'schedulePaused';
+
+export interface RunControllerOptions {
+  executor: FollowExecutor;
+  timers?: QueueTimers;
+  // Called whenever the run, its queue or its counters change
+  onChange?: () => void;
+}
+
+export interface StartOptions {
+  // Lower-cased or not; only these users are queued, including ones detected later
+  selection?: string[];
+  // Session of the page the run is started on
+  sessionUrl?: string | null;
+}
+
+export class RunController {
+  private queue: FollowQueue = new FollowQueue();
+  private run: RunMeta | null = null;
+  private pending = new Map<string, PendingFollow>();
+  private dryRunReport: DryRunReport | null = null;
+  // Outcome of the run's latest follow attempt
+  private lastOutcome: FollowOutcome | null = null;
+  // Account the run belongs to; every write of the run goes to it, also
+  // one finishing after a switch. Undefined before any account was seen.
+  private account: string | undefined;
+  private saving: Promise<void> = Promise.resolve();
+  private executor: FollowExecutor;
+  private timers?: QueueTimers;
+  private onChange: () => void;
+
+  constructor(options: RunControllerOptions) {
+    this.executor = options.executor;
+    this.timers = options.timers;
+    this.onChange = options.onChange || (() => { });
+  }
+
+  /**
+   * Rebuilds the run persisted before the worker was suspended, if any.
+   */
+  public async init(): Promise<void> {
+    this.account = (await getActiveAccount()) ?? undefined;
+    await checkAndResetDailyStats(this.account);
+    const state = await getRunState(this.account);
+    if (!state) {
+      this.queue = await this.buildQueue();
+      return;
+    }
+
+    const { pending, queue: snapshot, ...meta } = state;
+    this.run = meta;
+    this.queue = await this.buildQueue(snapshot, meta.dryRun);
+    if (meta.dryRun) {
+      const report = await getDryRunReport(this.account);
+      this.dryRunReport = report?.runId === meta.runId
+        ? report
+        : createDryRunReport(meta.runId, meta.startedAt, meta.sessionUrl ?? null);
+    }
+    for (const p of pending) this.enqueue(p);
+
+    // A dry run neither waits on nor clears a real run's cooldown
+    const rateLimitState = meta.dryRun ? null : await getRateLimitState(this.account);
+    const dailyLimitState = await getDailyLimitState(this.account);
+    const paused = snapshot.status === 'paused';
+    // A paused run comes back paused, holding whatever limit it was waiting on
+    const status = paused ? snapshot.pausedFrom || 'running' : snapshot.status;
+    if (paused) this.queue.pause();
+
+    if (status === 'rate_limited' && rateLimitState) {
+      // An already expired pause resumes as soon as the alarm fires
+      await this.queue.enterRateLimitState(rateLimitState);
+    } else if (status === 'daily_limit_reached' && dailyLimitState?.isLimited) {
+      await this.queue.handleDailyLimitReached();
+    } else if (status === 'running' || status === 'rate_limited' || status === 'daily_limit_reached') {
+      if (!meta.dryRun) await clearRateLimitState(this.account);
+      if (!paused) this.queue.start();
+    }
+    logger.info(`[xfollow] Restored run ${meta.runId} with ${pending.length} pending`);
+  }
+
+  private async buildQueue(snapshot?: RunState['queue'], dryRun = false): Promise<FollowQueue> {
+    const settings = await getSettings();
+    const dailyStats = await getDailyStats(this.account);
+    return new FollowQueue({
+      minDelay: settings.minDelay,
+      maxDelay: settings.maxDelay,
+      rateWindows: settings.rateWindows,
+      recentFollows: await getRecentFollows(this.account),
+      backoff: { baseMs: settings.backoffBase, maxMs: settings.backoffMax },
+      backoffLevel: (await getBackoffState(this.account))?.level,
+      dailyFollowLimit: settings.dailyFollowLimit,
+      todayCount: dailyStats.today.count,
+      dayBoundary: { resetHour: settings.dayResetHour, timeZone: settings.timeZone },
+      dryRun,
+      account: this.account,
+      snapshot,
+      timers: this.timers,
+      onChange: () => this.persist(),
+    });
+  }
+
+  private persist() {
+    const run = this.run;
+    if (!run) return;
+    const state: RunState = {
+      ...run,
+      // Includes the follow in flight, so it is retried if the worker dies mid-way
+      pending: Array.from(this.pending.values()),
+      queue: this.queue.getSnapshot(),
+    };
+    const account = this.account;
+    this.saving = this.saving.then(() => setRunState(state, account)).catch(e => logger.error('[xfollow] Failed to save run state', e));
+    this.onChange();
+  }
+
+  private saveDryRunReport() {
+    const report = this.dryRunReport;
+    if (!report) return;
+    const snapshot: DryRunReport = {
+      ...report,
+      wouldFollow: [...report.wouldFollow],
+      skipped: [...report.skipped],
+      unresolved: [...report.unresolved],
+    };
+    const account = this.account;
+    this.saving = this.saving.then(() => setDryRunReport(snapshot, account)).catch(e => logger.error('[xfollow] Failed to save dry-run report', e));
+  }
+
+  private enqueue(p: PendingFollow) {
+    const key = p.handle.toLowerCase();
+    this.pending.set(key, p);
+    this.queue.add(this.createTask(p));
+  }
+
+  private createTask(p: PendingFollow): FollowTask {
+    return {
+      handle: p.handle,
+      onExecute: async () => {
+        const run = this.run;
+        const account = this.account;
+        if (!run) return { outcome: 'error', detail: 'Run was stopped' };
+        if (run.tabId === null) return { outcome: 'error', detail: 'Run has no tab' };
+
+        const result = await this.executor(run.tabId, p);
+        // The run may have been put away for another account meanwhile
+        const current = this.run === run;
+        if (current) {
+          this.pending.delete(p.handle.toLowerCase());
+          this.lastOutcome = result.outcome;
+        }
+
+        const done = result.outcome === 'followed' || result.outcome === 'pending' ||
+          result.outcome === 'already_following' || result.outcome === 'would_follow';
+        recordEvent(done ? 'verified' : 'failed', result.detail || result.outcome.replace(/_/g, ' '), {
+          handle: p.handle,
+          data: { outcome: result.outcome, runId: run.runId, dryRun: !!run.dryRun },
+        });
+        if (run.dryRun) {
+          if (current && this.dryRunReport) {
+            addDryRunResult(this.dryRunReport, p, result, clock.now());
+            this.saveDryRunReport();
+          }
+        } else if (done) {
+          await markAsFollowed({
+            handle: p.handle,
+            displayName: p.displayName,
+            sourceUrl: p.sourceUrl,
+            outcome: result.outcome,
+            runId: run.runId,
+            rules: p.rules,
+            surface: p.surface,
+            badgeType: p.badgeType,
+            profile: run.profile ?? null,
+          }, account);
+        }
+        return result;
+      },
+    };
+  }
+
+  private async recordSkip(run: RunMeta, candidate: CandidateUser, decision: FilterDecision, account: string | undefined): Promise<void> {
+    const record: SkipRecord = {
+      handle: candidate.handle,
+      rule: decision.rule!,
+      reason: decision.reason || '',
+      threadUrl: candidate.sourceUrl,
+      at: clock.now(),
+    };
+    run.skipped.push(record);
+    if (run.dryRun && this.run === run && this.dryRunReport) {
+      this.dryRunReport.skipped.push(record);
+      this.dryRunReport.updatedAt = record.at;
+    }
+    if (!run.dryRun) await recordAnalytics('skipped', account);
+    logger.info(`[xfollow] Skipped ${record.handle} [${record.rule}] ${record.reason}`);
+    recordEvent('filtered', record.reason || record.rule, { handle: record.handle, data: { rule: record.rule } });
+  }
+
+  /**
+   * Applies the targeting rules to new candidates and queues the eligible ones.
+   */
+  public async addCandidates(tabId: number, candidates: CandidateUser[]): Promise<void> {
+    const run = this.run;
+    if (!run || run.tabId !== tabId) return;
+    const account = this.account;
+
+    const { filterRules, skipFollowed } = await getSettings();
+    const rules = activeRules(filterRules);
+    for (const candidate of candidates) {
+      // An account switch replaced the run while its candidates were read
+      if (this.run !== run) return;
+      if (this.isThreadScoped(run) && candidate.sourceUrl !== run.sessionUrl) continue;
+      const key = candidate.handle.toLowerCase();
+      if (run.selection && !run.selection.includes(key)) continue;
+      if (run.evaluated.includes(key)) continue;
+      run.evaluated.push(key);
+
+      const threadUrl = candidate.sourceUrl;
+      const queuedInThread = run.queuedPerThread[threadUrl] || 0;
+      const decision = evaluateFilters(candidate, filterRules, { threadUrl, queuedInThread });
+
+      if (!decision.allowed) {
+        await this.recordSkip(run, candidate, decision, account);
+      } else if (skipFollowed && (await isFollowed(candidate.handle, account))) {
+        await this.recordSkip(run, candidate, { allowed: false, rule: 'alreadyFollowed', reason: 'Already followed' }, account);
+      } else if (this.run === run) {
+        run.queuedPerThread[threadUrl] = queuedInThread + 1;
+        recordEvent('queued', `Queued from ${threadUrl}`, { handle: candidate.handle, data: { runId: run.runId } });
+        this.enqueue({
+          handle: candidate.handle,
+          displayName: candidate.displayName || '',
+          sourceUrl: candidate.sourceUrl,
+          enqueuedAt: clock.now(),
+          rules,
+          surface: candidate.surface,
+          badgeType: candidate.badgeType ?? undefined,
+          dryRun: run.dryRun || undefined,
+        });
+      }
+    }
+    if (this.run !== run) return;
+    this.persist();
+    if (run.dryRun) this.saveDryRunReport();
+  }
+
+  private isThreadScoped(run: RunMeta): boolean {
+    return run.scope === 'thread' && !!run.sessionUrl;
+  }
+
+  private isHeld(run: RunMeta): boolean {
+    return !!run.routePaused || !!run.schedulePaused;
+  }
+
+  /**
+   * Pauses an active run for `reason`. A run already held for another reason
+   * records this one too; a run the user paused is left alone.
+   */
+  private hold(run: RunMeta, reason: HoldReason): boolean {
+    if (run[reason]) return false;
+    const status = this.queue.getStats().status;
+    const active = status === 'running' || status === 'rate_limited' || status === 'daily_limit_reached';
+    if (!active && !this.isHeld(run)) return false;
+    run[reason] = true;
+    if (active) {
+      this.queue.pause();
+    } else {
+      this.persist();
+    }
+    return true;
+  }
+
+  private release(run: RunMeta, reason: HoldReason): boolean {
+    if (!run[reason]) return false;
+    run[reason] = false;
+    if (this.isHeld(run)) {
+      this.persist();
+    } else {
+      this.queue.resume();
+    }
+    return true;
+  }
+
+  /**
+   * Starts a new run on `tabId`, scoped as the `runScope` setting says.
+   */
+  public async start(tabId: number, candidates: CandidateUser[], options: StartOptions = {}): Promise<void> {
+    const status = this.queue.getStats().status;
+    if (status === 'running' || status === 'rate_limited' || status === 'daily_limit_reached' || status === 'paused') return;
+
+    const { selection, sessionUrl = null } = options;
+    const { runScope, schedule, timeZone, dryRun } = await getSettings();
+    const profile = await getActiveProfile();
+    this.account = (await getActiveAccount()) ?? undefined;
+    this.pending.clear();
+    this.run = {
+      runId: crypto.randomUUID(),
+      tabId,
+      startedAt: clock.now(),
+      skipped: [],
+      queuedPerThread: {},
+      evaluated: [],
+      selection: selection ? selection.map(h => h.toLowerCase()) : null,
+      scope: runScope,
+      sessionUrl,
+      routePaused: false,
+      dryRun,
+      profile: profile ? { id: profile.id, name: profile.name } : null,
+    };
+    this.lastOutcome = null;
+    this.dryRunReport = dryRun ? createDryRunReport(this.run.runId, this.run.startedAt, sessionUrl) : null;
+    this.queue = await this.buildQueue(undefined, dryRun);
+    await this.addCandidates(tabId, candidates);
+    // Started outside the schedule, the run waits for the next window
+    const scheduleOpen = isWithinSchedule(clock.now(), schedule, timeZone);
+    if (!scheduleOpen) {
+      this.run.schedulePaused = true;
+      this.queue.pause();
+    }
+    // A cooldown X imposed on an earlier run still applies
+    const rateLimitState = dryRun ? null : await getRateLimitState(this.account);
+    if (rateLimitState?.reason === 'backoff' && rateLimitState.pauseUntil > clock.now()) {
+      await this.queue.enterRateLimitState(rateLimitState);
+    } else if (scheduleOpen) {
+      this.queue.start();
+    }
+    logger.info(`[xfollow] Started ${dryRun ? 'dry run' : 'run'} ${this.run.runId} on tab ${tabId}`);
+  }
+
+  public pause(): void {
+    if (!this.run) return;
+    this.run.routePaused = false;
+    this.run.schedulePaused = false;
+    this.queue.pause();
+  }
+
+  /**
+   * Resumes a paused run. A backlog whose tab was closed is taken over by
+   * `tabId`.
+   */
+  public resume(tabId?: number | null): void {
+    const run = this.run;
+    if (!run) return;
+    if (run.tabId === null) {
+      if (!tabId) return;
+      run.tabId = tabId;
+      logger.info(`[xfollow] Tab ${tabId} took over run ${run.runId}`);
+    }
+    run.routePaused = false;
+    run.schedulePaused = false;
+    this.queue.resume();
+  }
+
+  /**
+   * Follows left over from a run whose tab was closed, if any.
+   */
+  public getBacklog(): { runId: string; pending: number; startedAt: number } | null {
+    const run = this.run;
+    if (!run || run.tabId !== null || this.pending.size === 0) return null;
+    return { runId: run.runId, pending: this.pending.size, startedAt: run.startedAt };
+  }
+
+  public async stop(): Promise<void> {
+    this.queue.stop();
+    this.run = null;
+    this.dryRunReport = null;
+    this.pending.clear();
+    await this.saving;
+    await clearRunState(this.account);
+  }
+
+  /**
+   * Puts the run away before the active account changes: it is saved paused
+   * under the account it was started for, and `init` then restores the next
+   * account's run.
+   */
+  public async suspend(): Promise<void> {
+    if (this.run) this.pause();
+    await this.saving;
+    this.run = null;
+    this.queue.stop();
+    this.dryRunReport = null;
+    this.pending.clear();
+    this.lastOutcome = null;
+  }
+
+  public getRunTabId(): number | null {
+    return this.run?.tabId ?? null;
+  }
+
+  public getStatus() {
+    const run = this.run;
+    const skipped = run?.skipped || [];
+    const skippedByRule: Partial<Record<FilterRuleId, number>> = {};
+    for (const record of skipped) {
+      skippedByRule[record.rule] = (skippedByRule[record.rule] || 0) + 1;
+    }
+    return {
+      ...this.queue.getStats(),
+      skippedCount: skipped.length,
+      skippedByRule,
+      scope: run?.scope ?? null,
+      sessionUrl: run?.sessionUrl ?? null,
+      routePaused: !!run?.routePaused,
+      schedulePaused: !!run?.schedulePaused,
+      dryRun: !!run?.dryRun,
+      profile: run?.profile?.name ?? null,
+      lastOutcome: this.lastOutcome,
+    };
+  }
+
+  public getSkipped(): SkipRecord[] {
+    return this.run?.skipped || [];
+  }
+
+  public getRateLimitInfo() {
+    return this.queue.getRateLimitInfo();
+  }
+
+  public getDailyLimitInfo() {
+    return this.queue.getDailyLimitInfo();
+  }
+
+  public async resetDailyStats(): Promise<void> {
+    await resetDailyStats(this.account);
+    await this.queue.resumeFromDailyLimit();
+  }
+
+  public async handleTimer(name: QueueTimerName): Promise<void> {
+    await this.queue.handleTimer(name);
+  }
+
+  /**
+   * X showed a limit toast in the run's tab; the run backs off and keeps its
+   * pending follows. Returns whether it backed off.
+   */
+  public async handleRateLimitDetected(tabId: number): Promise<boolean> {
+    if (this.run?.tabId !== tabId) return false;
+    // A dry run leaves the rate-limit state alone
+    if (this.run.dryRun) return false;
+    if (!(await this.queue.backOff())) return false;
+    const { pauseUntil } = this.queue.getRateLimitInfo();
+    logger.warn(`[xfollow] Run ${this.run.runId} backing off until ${new Date(pauseUntil ?? clock.now()).toLocaleTimeString()}`);
+    return true;
+  }
+
+  /**
+   * The run's tab moved to another page without a reload. A thread-scoped run
+   * pauses while its tab is away from the thread and picks up again on return.
+   */
+  public handleRouteChange(tabId: number, sessionUrl: string): void {
+    const run = this.run;
+    if (!run || run.tabId !== tabId || !this.isThreadScoped(run)) return;
+
+    if (sessionUrl !== run.sessionUrl) {
+      if (this.hold(run, 'routePaused')) logger.info(`[xfollow] Run ${run.runId} paused: tab left ${run.sessionUrl}`);
+    } else if (this.release(run, 'routePaused')) {
+      logger.info(`[xfollow] Run ${run.runId} back on ${sessionUrl}`);
+    }
+  }
+
+  public hasRun(): boolean {
+    return this.run !== null;
+  }
+
+  /**
+   * Holds the run outside the scheduled windows and lets it go inside them.
+   */
+  public async applySchedule(): Promise<void> {
+    const run = this.run;
+    if (!run) return;
+    const { schedule, timeZone } = await getSettings();
+    if (isWithinSchedule(clock.now(), schedule, timeZone)) {
+      if (this.release(run, 'schedulePaused')) logger.info(`[xfollow] Run ${run.runId} resumed by the schedule`);
+    } else if (this.hold(run, 'schedulePaused')) {
+      logger.info(`[xfollow] Run ${run.runId} paused by the schedule`);
+    }
+  }
+
+  /**
+   * Keeps the pending follows as a paused backlog that another tab can resume.
+   */
+  public async handleTabClosed(tabId: number): Promise<void> {
+    const run = this.run;
+    if (run?.tabId !== tabId) return;
+    if (this.pending.size === 0) {
+      await this.stop();
+      return;
+    }
+    run.tabId = null;
+    this.queue.pause();
+    this.persist();
+    logger.info(`[xfollow] Tab ${tabId} closed; ${this.pending.size} follows kept as backlog`);
+  }
+}
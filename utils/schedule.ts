@@ -0,0 +1,60 @@
+/**
+ * Allowed run windows: a scheduled run is held outside them and let go
+ * inside them. Hours are read in the day boundary's time zone.
+ */
+import { fromZonedTime, zonedTime } from './clock';
+
+export interface ScheduleWindow {
+  // Weekdays the window starts on, 0 is Sunday
+  days: number[];
+  startHour: number;
+  // Exclusive; an end at or before the start runs past midnight
+  endHour: number;
+}
+
+export interface RunSchedule {
+  enabled: boolean;
+  windows: ScheduleWindow[];
+}
+
+export const DEFAULT_SCHEDULE: RunSchedule = {
+  enabled: false,
+  windows: [{ days: [1, 2, 3, 4, 5], startHour: 9, endHour: 17 }],
+};
+
+function inWindow(window: ScheduleWindow, weekday: number, hour: number): boolean {
+  if (window.startHour < window.endHour) {
+    return window.days.includes(weekday) && hour >= window.startHour && hour < window.endHour;
+  }
+  const previousDay = (weekday + 6) % 7;
+  return (window.days.includes(weekday) && hour >= window.startHour) ||
+    (window.days.includes(previousDay) && hour < window.endHour);
+}
+
+/**
+ * Whether runs may follow at `at`; always true when the schedule is off.
+ */
+export function isWithinSchedule(at: number, schedule: RunSchedule, timeZone: string): boolean {
+  if (!schedule.enabled) return true;
+  const z = zonedTime(at, timeZone);
+  return schedule.windows.some(w => inWindow(w, z.weekday, z.hour));
+}
+
+/**
+ * The next time a window opens or closes, or null when that never happens.
+ */
+export function nextScheduleChange(at: number, schedule: RunSchedule, timeZone: string): number | null {
+  if (!schedule.enabled || schedule.windows.length === 0) return null;
+  const inside = isWithinSchedule(at, schedule, timeZone);
+
+  // Windows open and close on the hour, so a week of hours covers every change
+  let t = at;
+  for (let i = 0; i < 8 * 24; i++) {
+    const z = zonedTime(t, timeZone);
+    const next = fromZonedTime(z.year, z.month, z.day, z.hour + 1, 0, timeZone);
+    // An hour repeated when clocks go back resolves to its first instance
+    t = next > t ? next : t + 60 * 60 * 1000;
+    if (isWithinSchedule(t, schedule, timeZone) !== inside) return t;
+  }
+  return null;
+}
@@ -0,0 +1,255 @@
+/**
+ * Runtime schemas for what is kept in storage. Stored data may come from an
+ * older release, a backup or a hand edit, so every read is checked: values
+ * that fail their key's schema read as missing, and settings fields that
+ * fail theirs fall back to the defaults.
+ */
+import { isBadgeType } from './badges';
+import { isValidTimeZone } from './clock';
+import type { FilterRules } from './filters';
+import { LOG_LEVELS, type LogLevelName } from './logger';
+import { isValidSelectorPack } from './selectors';
+import type { Settings } from './storage';
+import { isSurface } from './surface';
+
+export type Guard = (value: unknown) => boolean;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const listOf = (guard: Guard): Guard => value => Array.isArray(value) && value.every(guard);
+
+const optional = (guard: Guard): Guard => value => value === undefined || value === null || guard(value);
+
+/**
+ * An object whose listed fields pass their guards; other fields are free.
+ */
+const shape = (fields: Record<string, Guard>): Guard => value =>
+  isObject(value) && Object.entries(fields).every(([field, guard]) => guard(value[field]));
+
+const isDay = shape({ date: isString, count: isNumber });
+
+const isFollowBackBucket = shape({ key: isString, audited: isNumber, followedBack: isNumber, rate: isNumber });
+
+const isSkipRecord = shape({ handle: isString, rule: isString, reason: isString });
+
+const isDryRunEntry = shape({ handle: isString, outcome: isString, at: isNumber });
+
+const isPendingFollow = shape({ handle: isString, displayName: isString, sourceUrl: isString });
+
+/**
+ * Follow record fields added by later releases; older records leave them out.
+ */
+export const FOLLOW_RECORD_OPTIONAL_FIELDS: Record<string, Guard> = {
+  rules: optional(listOf(isString)),
+  surface: optional(isSurface),
+  badgeType: optional(isBadgeType),
+  profile: optional(shape({ id: isString, name: isString })),
+  followsBack: optional(isBoolean),
+  auditedAt: optional(isNumber),
+};
+
+export const isFollowRecord = shape({
+  handle: isString,
+  displayName: isString,
+  followedAt: isNumber,
+  sourceUrl: isString,
+  outcome: isString,
+  runId: isString,
+  ...FOLLOW_RECORD_OPTIONAL_FIELDS,
+});
+
+/**
+ * The schema of each storage key. Per-account keys (`account:<handle>:<key>`)
+ * use the schema of their key, follow records (`followed:<handle>`) the one
+ * of their prefix.
+ */
+export const STORAGE_SCHEMA: Record<string, Guard> = {
+  followedUsers: listOf(isString),
+  'followed:': isFollowRecord,
+  settings: isObject,
+  rateLimitState: shape({ pauseUntil: isNumber, reason: value => value === 'window' || value === 'backoff' }),
+  recentFollows: listOf(isNumber),
+  backoffState: shape({ level: isNumber, lastHitAt: isNumber }),
+  dailyStats: shape({ today: isDay, history: listOf(isDay) }),
+  dailyLimitState: shape({ isLimited: isBoolean, limitReachedAt: optional(isNumber) }),
+  selectorPack: isValidSelectorPack,
+  runState: shape({
+    runId: isString,
+    tabId: optional(isNumber),
+    startedAt: isNumber,
+    pending: listOf(isPendingFollow),
+    queue: shape({ status: isString, processed: isNumber, success: isNumber, outcomes: isObject }),
+    skipped: listOf(isSkipRecord),
+    queuedPerThread: isObject,
+    evaluated: listOf(isString),
+    profile: optional(shape({ id: isString, name: isString })),
+  }),
+  followBackReport: shape({
+    generatedAt: isNumber,
+    overall: isFollowBackBucket,
+    byDay: listOf(isFollowBackBucket),
+    byThread: listOf(isFollowBackBucket),
+    byRule: listOf(isFollowBackBucket),
+    byBadge: listOf(isFollowBackBucket),
+    byProfile: optional(listOf(isFollowBackBucket)),
+  }),
+  panelState: shape({ x: optional(isNumber), y: optional(isNumber), collapsed: isBoolean }),
+  eventLog: listOf(shape({ at: isNumber, type: isString, message: isString })),
+  dryRunReport: shape({
+    runId: isString,
+    startedAt: isNumber,
+    updatedAt: isNumber,
+    wouldFollow: listOf(isDryRunEntry),
+    skipped: listOf(isSkipRecord),
+    unresolved: listOf(isDryRunEntry),
+  }),
+  activeAccount: isString,
+  accounts: listOf(isString),
+  schemaVersion: isNumber,
+  analytics: listOf(shape({ date: isString, totals: isObject, hours: isObject })),
+  profiles: listOf(shape({ id: isString, name: isString, settings: isObject })),
+  activeProfile: isString,
+};
+
+export interface FieldError {
+  // Settings field, `filterRules.<rule>` for targeting rules
+  field: string;
+  message: string;
+}
+
+// A problem with the value, or null when it is fine
+type Check = (value: unknown) => string | null;
+
+const wholeNumber = (min: number, max = Infinity): Check => value => {
+  if (!isNumber(value)) return 'must be a number';
+  if (Number.isInteger(value) && value >= min && value <= max) return null;
+  return max === Infinity ? `must be a whole number of ${min} or more` : `must be a whole number from ${min} to ${max}`;
+};
+
+const boolean: Check = value => isBoolean(value) ? null : 'must be true or false';
+
+const stringList: Check = value => listOf(isString)(value) ? null : 'must be a list of text entries';
+
+const isRateWindow = shape({ id: isString, label: isString, durationMs: isNumber, limit: isNumber });
+
+const isScheduleWindow = shape({ days: listOf(isNumber), startHour: isNumber, endHour: isNumber });
+
+const SETTINGS_CHECKS: Record<Exclude<keyof Settings, 'filterRules'>, Check> = {
+  minDelay: wholeNumber(0),
+  maxDelay: wholeNumber(0),
+  skipFollowed: boolean,
+  rateWindows: value => {
+    if (!listOf(isRateWindow)(value)) return 'must be a list of windows with durationMs and limit';
+    const windows = value as Settings['rateWindows'];
+    const bad = windows.find(w => w.durationMs <= 0 || !Number.isInteger(w.limit) || w.limit < 0);
+    return bad ? `the ${bad.label} limit must be a whole number of 0 or more` : null;
+  },
+  backoffBase: value => !isNumber(value) ? 'must be a number' : value > 0 ? null : 'must be more than 0',
+  backoffMax: value => !isNumber(value) ? 'must be a number' : value > 0 ? null : 'must be more than 0',
+  dailyFollowLimit: wholeNumber(1),
+  auditAfterDays: wholeNumber(1),
+  runScope: value => value === 'thread' || value === 'collect' ? null : 'must be thread or collect',
+  dayResetHour: wholeNumber(0, 23),
+  timeZone: value => isString(value) && isValidTimeZone(value.trim()) ? null : 'must be a known time zone',
+  schedule: value => {
+    if (!shape({ enabled: isBoolean, windows: listOf(isScheduleWindow) })(value)) {
+      return 'must have a list of windows';
+    }
+    const windows = (value as Settings['schedule']).windows;
+    const hour = wholeNumber(0, 24);
+    const bad = windows.findIndex(w =>
+      hour(w.startHour) || hour(w.endHour) || w.days.some(d => !Number.isInteger(d) || d < 0 || d > 6));
+    return bad === -1 ? null : `window ${bad + 1} needs weekdays from 0 to 6 and hours from 0 to 24`;
+  },
+  logLevel: value => LOG_LEVELS.includes(value as LogLevelName) ? null : `must be one of ${LOG_LEVELS.join(', ')}`,
+  dryRun: boolean,
+  notifications: boolean,
+  statsRetentionDays: wholeNumber(1, 365),
+};
+
+const FILTER_RULE_CHECKS: Record<keyof FilterRules, Check> = {
+  allowHandles: stringList,
+  denyHandles: stringList,
+  badgeTypes: value => listOf(isBadgeType)(value) ? null : 'must be a list of badge types',
+  includeKeywords: stringList,
+  excludeKeywords: stringList,
+  directRepliesOnly: boolean,
+  maxFollowsPerThread: wholeNumber(0),
+};
+
+// Checks between two fields, reported on `field`; both fall back together
+const SETTINGS_RELATIONS: { field: keyof Settings; other: keyof Settings; message: string; holds: (s: Settings) => boolean }[] = [
+  { field: 'maxDelay', other: 'minDelay', message: 'must be at least the min delay', holds: s => s.maxDelay >= s.minDelay },
+  { field: 'backoffBase', other: 'backoffMax', message: 'must not be longer than the longest cooldown', holds: s => s.backoffBase <= s.backoffMax },
+];
+
+/**
+ * Problems with (possibly partial) settings, one per field. Fields that are
+ * missing are not checked; unknown fields are ignored.
+ */
+export function validateSettings(value: unknown): FieldError[] {
+  if (!isObject(value)) return [{ field: 'settings', message: 'must be an object' }];
+  const errors: FieldError[] = [];
+  for (const [field, check] of Object.entries(SETTINGS_CHECKS)) {
+    const message = field in value ? check(value[field]) : null;
+    if (message) errors.push({ field, message });
+  }
+
+  if ('filterRules' in value) {
+    const rules = value.filterRules;
+    if (!isObject(rules)) {
+      errors.push({ field: 'filterRules', message: 'must be an object' });
+    } else {
+      for (const [rule, check] of Object.entries(FILTER_RULE_CHECKS)) {
+        const message = rule in rules ? check(rules[rule]) : null;
+        if (message) errors.push({ field: `filterRules.${rule}`, message });
+      }
+    }
+  }
+
+  for (const relation of SETTINGS_RELATIONS) {
+    const failed = errors.some(e => e.field === relation.field || e.field === relation.other);
+    if (failed || !(relation.field in value) || !(relation.other in value)) continue;
+    if (!relation.holds(value as unknown as Settings)) errors.push({ field: relation.field, message: relation.message });
+  }
+  return errors;
+}
+
+/**
+ * The fields of stored settings that pass validation. A field failing a
+ * relation is dropped with the field it is compared to, so both fall back
+ * to their defaults together.
+ */
+export function sanitizeSettings(value: unknown): Partial<Settings> {
+  if (!isObject(value)) return {};
+  const errors = validateSettings(value);
+  const dropped = new Set(errors.map(e => e.field));
+  for (const relation of SETTINGS_RELATIONS) {
+    if (errors.some(e => e.field === relation.field && e.message === relation.message)) dropped.add(relation.other);
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const field of Object.keys(SETTINGS_CHECKS)) {
+    if (field in value && !dropped.has(field)) settings[field] = value[field];
+  }
+  if (isObject(value.filterRules)) {
+    settings.filterRules = Object.fromEntries(Object.keys(FILTER_RULE_CHECKS)
+      .filter(rule => rule in (value.filterRules as object) && !dropped.has(`filterRules.${rule}`))
+      .map(rule => [rule, (value.filterRules as Record<string, unknown>)[rule]]));
+  }
+  return settings as Partial<Settings>;
+}
+
+/**
+ * `minDelay must be a number`, as shown for backups and in logs.
+ */
+export function formatFieldError(error: FieldError, prefix = ''): string {
+  return `${prefix}${error.field} ${error.message}`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Versioned selector packs: every X DOM lookup resolves through an ordered
+ * chain of fallback selectors so selectors can be updated without a new build.
+ */
+import logger from "../utils/logger";
+
+export type SelectorTarget =
+  | "article"
+  | "userCell"
+  | "sidebar"
+  | "userName"
+  | "verifiedBadge"
+  | "affiliateBadge"
+  | "tweetText"
+  | "statusLink"
+  | "conversationCell"
+  | "followButton"
+  | "unfollowButton"
+  | "hoverCard"
+  | "followsYouIndicator"
+  | "toast"
+  | "profileLink"
+  | "accountSwitcher";
+
+export interface SelectorPack {
+  version: number;
+  // Ordered fallback chain per target; `{handle}` is substituted at lookup time
+  selectors: Record<SelectorTarget, string[]>;
+}
+
+export type SelectorVars = { handle?: string };
+
+export interface SelectorTestEntry {
+  selector: string;
+  matches: number;
+}
+
+export interface SelectorTestResult {
+  target: SelectorTarget;
+  entries: SelectorTestEntry[];
+  // Index of the first entry in the chain that matched, -1 if none did
+  resolvedIndex: number;
+}
+
+export const SELECTOR_TARGETS: SelectorTarget[] = [
+  "article",
+  "userCell",
+  "sidebar",
+  "userName",
+  "verifiedBadge",
+  "affiliateBadge",
+  "tweetText",
+  "statusLink",
+  "conversationCell",
+  "followButton",
+  "unfollowButton",
+  "hoverCard",
+  "followsYouIndicator",
+  "toast",
+  "profileLink",
+  "accountSwitcher",
+];
+
+export const DEFAULT_SELECTOR_PACK: SelectorPack = {
+  version: 8,
+  selectors: {
+    article: ['article[data-testid="tweet"]', 'article[role="article"]'],
+    // Rows of follower, following, likes, reposts and people search lists
+    userCell: ['[data-testid="UserCell"]'],
+    // Holds "Who to follow" cells, which are not part of the page's list
+    sidebar: ['[data-testid="sidebarColumn"]', 'aside[role="complementary"]'],
+    userName: ['[data-testid="User-Name"]', '[data-testid="User-Names"]'],
+    verifiedBadge: [
+      '[data-testid="icon-verified"]',
+      'svg[aria-label="Verified account"]',
+    ],
+    // Looked up next to the checkmark: the affiliated organisation's avatar
+    affiliateBadge: ['img[src*="/profile_images/"]'],
+    tweetText: ['[data-testid="tweetText"]'],
+    statusLink: ['a[href*="/status/"]'],
+    // Timeline rows; a thread's reply chains sit in consecutive cells
+    conversationCell: ['[data-testid="cellInnerDiv"]'],
+    followButton: [
+      'button[aria-label="Follow {handle}"]',
+      '[role="button"][aria-label="Follow {handle}"]',
+      '[data-testid$="-follow"][aria-label="Follow {handle}"]',
+    ],
+    unfollowButton: [
+      'button[aria-label="Following {handle}"]',
+      '[data-testid$="-unfollow"][aria-label="Following {handle}"]',
+    ],
+    hoverCard: ['[data-testid="HoverCard"]', '[data-testid="hoverCardParent"]'],
+    followsYouIndicator: ['[data-testid="userFollowIndicator"]'],
+    toast: ['[data-testid="toast"]', '[role="alert"]'],
+    // The logged-in account: its profile tab links to `/<handle>`
+    profileLink: ['a[data-testid="AppTabBar_Profile_Link"]'],
+    // Shows `@handle` of the logged-in account in the side nav
+    accountSwitcher: ['[data-testid="SideNav_AccountSwitcher_Button"]'],
+  },
+};
+
+let activePack: SelectorPack = DEFAULT_SELECTOR_PACK;
+
+export function getActiveSelectorPack(): SelectorPack {
+  return activePack;
+}
+
+/**
+ * Replace the pack used by all lookups (e.g. after loading it from storage).
+ */
+export function useSelectorPack(pack: SelectorPack) {
+  activePack = pack;
+  logger.debug(`[xfollow] Using selector pack v${pack.version}`);
+}
+
+/**
+ * Checks that a value has the selector pack shape; used before storing or
+ * activating a pack edited by the user.
+ */
+export function isValidSelectorPack(value: unknown): value is SelectorPack {
+  if (!value || typeof value !== "object") return false;
+  const pack = value as SelectorPack;
+  if (typeof pack.version !== "number" || !pack.selectors) return false;
+  return SELECTOR_TARGETS.every((target) => {
+    const chain = pack.selectors[target];
+    return (
+      Array.isArray(chain) &&
+      chain.length > 0 &&
+      chain.every((s) => typeof s === "string" && s.trim().length > 0)
+    );
+  });
+}
+
+function escapeAttrValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function expand(selector: string, vars?: SelectorVars): string | null {
+  if (!selector.includes("{handle}")) return selector;
+  if (!vars?.handle) return null;
+  return selector.split("{handle}").join(escapeAttrValue(vars.handle));
+}
+
+function safeQueryAll(root: ParentNode, selector: string): Element[] {
+  try {
+    return Array.from(root.querySelectorAll(selector));
+  } catch (e) {
+    // Invalid selector in a user-edited pack; treat as no match
+    return [];
+  }
+}
+
+/**
+ * Returns the selectors of a target's chain, expanded with `vars`.
+ * Templated entries are dropped when the variable is missing.
+ */
+export function getSelectorChain(
+  target: SelectorTarget,
+  vars?: SelectorVars
+): string[] {
+  const chain = activePack.selectors[target] || [];
+  return chain
+    .map((s) => expand(s, vars))
+    .filter((s): s is string => s !== null);
+}
+
+/**
+ * First element matching the chain: entries are tried in order and the first
+ * one that matches anything wins.
+ */
+export function queryTarget<T extends Element = HTMLElement>(
+  root: ParentNode,
+  target: SelectorTarget,
+  vars?: SelectorVars
+): T | null {
+  for (const selector of getSelectorChain(target, vars)) {
+    const found = safeQueryAll(root, selector);
+    if (found.length > 0) return found[0] as T;
+  }
+  return null;
+}
+
+/**
+ * All elements matched by the first entry of the chain that matches anything.
+ */
+export function queryTargetAll<T extends Element = HTMLElement>(
+  root: ParentNode,
+  target: SelectorTarget,
+  vars?: SelectorVars
+): T[] {
+  for (const selector of getSelectorChain(target, vars)) {
+    const found = safeQueryAll(root, selector);
+    if (found.length > 0) return found as T[];
+  }
+  return [];
+}
+
+/**
+ * Whether the element itself matches any entry of the target's chain.
+ */
+export function matchesTarget(
+  el: Element,
+  target: SelectorTarget,
+  vars?: SelectorVars
+): boolean {
+  return getSelectorChain(target, vars).some((selector) => {
+    try {
+      return el.matches(selector);
+    } catch (e) {
+      return false;
+    }
+  });
+}
+
+/**
+ * Reports, for every target, how many elements each chain entry matches on
+ * the current page. Templated entries are tried with each of `handles`.
+ */
+export function runSelectorSelfTest(
+  handles: string[] = [],
+  root: ParentNode = document
+): SelectorTestResult[] {
+  return SELECTOR_TARGETS.map((target) => {
+    const entries = (activePack.selectors[target] || []).map((selector) => {
+      let matches = 0;
+      if (selector.includes("{handle}")) {
+        for (const handle of handles) {
+          const expanded = expand(selector, { handle });
+          if (expanded) matches += safeQueryAll(root, expanded).length;
+        }
+      } else {
+        matches = safeQueryAll(root, selector).length;
+      }
+      return { selector, matches };
+    });
+
+    return {
+      target,
+      entries,
+      resolvedIndex: entries.findIndex((e) => e.matches > 0),
+    };
+  });
+}
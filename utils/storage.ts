@@ -3,33 +3,142 @@
  */
 
 import { browser } from 'wxt/browser';
+import { DEFAULT_SELECTOR_PACK, isValidSelectorPack, type SelectorPack } from './selectors';
+import { DEFAULT_FILTER_RULES, normalizeHandle, type FilterRuleId, type FilterRules, type SkipRecord } from './filters';
+import type { FollowBackReport } from './audit';
+import type { FollowOutcome, QueueSnapshot } from './followQueue';
+import { DEFAULT_RATE_WINDOWS, type RateWindow } from './rateLimiter';
+import { clock, dayKey, nextDayStart, type DayBoundary } from './clock';
+import { DEFAULT_SCHEDULE, type RunSchedule } from './schedule';
+import type { ActivityEvent } from './eventLog';
+import type { LogLevelName } from './logger';
+import type { Surface } from './surface';
+import type { BadgeType } from './badges';
+import type { DryRunReport } from './dryRun';
+import type { AnalyticsDay } from './analytics';
+import logger from './logger';
+import { formatFieldError, sanitizeSettings, STORAGE_SCHEMA, validateSettings, type FieldError } from './schema';
+
+/**
+ * `thread` binds a run to the thread it was started on; `collect` keeps
+ * queueing users from every thread visited while it runs.
+ */
+export type RunScope = 'thread' | 'collect';
 
 export interface Settings {
     minDelay: number;
     maxDelay: number;
     skipFollowed: boolean;
-    rateLimitThreshold: number;
-    rateLimitDuration: number;
+    // Sliding windows every follow has to fit; a limit of 0 switches one off
+    rateWindows: RateWindow[];
+    // First cooldown (ms) after X reports a limit, doubled for each one in a row
+    backoffBase: number;
+    backoffMax: number;
     dailyFollowLimit: number;
+    filterRules: FilterRules;
+    // Follows younger than this are not checked for a follow-back yet
+    auditAfterDays: number;
+    runScope: RunScope;
+    // The daily limit and stats roll over at this hour of `timeZone`
+    dayResetHour: number;
+    // IANA time zone for the day boundary and schedule; empty for the browser's
+    timeZone: string;
+    schedule: RunSchedule;
+    // Console output and the events kept in the activity log
+    logLevel: LogLevelName;
+    // Runs find the follow controls but never click them
+    dryRun: boolean;
+    // Desktop notifications for finished runs and limits
+    notifications: boolean;
+    // Days of daily stats and analytics kept
+    statsRetentionDays: number;
 }
 
-const DEFAULT_SETTINGS: Settings = {
+export const DEFAULT_SETTINGS: Settings = {
     minDelay: 1500,
     maxDelay: 4000,
     skipFollowed: true,
-    rateLimitThreshold: 10,
-    rateLimitDuration: 600000,
+    rateWindows: DEFAULT_RATE_WINDOWS,
+    backoffBase: 900000,
+    backoffMax: 86400000,
     dailyFollowLimit: 100,
+    filterRules: DEFAULT_FILTER_RULES,
+    auditAfterDays: 7,
+    runScope: 'thread',
+    dayResetHour: 0,
+    timeZone: '',
+    schedule: DEFAULT_SCHEDULE,
+    logLevel: 'info',
+    dryRun: false,
+    notifications: false,
+    statsRetentionDays: 30,
 };
 
 const STORAGE_KEYS = {
+    // Legacy flat array of handles, migrated into FOLLOW_RECORD_PREFIX entries
     FOLLOWED_USERS: 'followedUsers',
+    FOLLOW_RECORD_PREFIX: 'followed:',
     SETTINGS: 'settings',
     RATE_LIMIT_STATE: 'rateLimitState',
+    RECENT_FOLLOWS: 'recentFollows',
+    BACKOFF_STATE: 'backoffState',
     DAILY_STATS: 'dailyStats',
     DAILY_LIMIT_STATE: 'dailyLimitState',
+    SELECTOR_PACK: 'selectorPack',
+    RUN_STATE: 'runState',
+    FOLLOW_BACK_REPORT: 'followBackReport',
+    PANEL_STATE: 'panelState',
+    EVENT_LOG: 'eventLog',
+    DRY_RUN_REPORT: 'dryRunReport',
+    // Per-day and per-hour follow counters, see utils/analytics.ts
+    ANALYTICS: 'analytics',
+    // The X account logged in on the last X page seen, and every account seen
+    ACTIVE_ACCOUNT: 'activeAccount',
+    ACCOUNTS: 'accounts',
+    ACCOUNT_PREFIX: 'account:',
+    // Layout version of everything stored, see utils/migrations.ts
+    SCHEMA_VERSION: 'schemaVersion',
+    // Named settings, and the one each account used last
+    PROFILES: 'profiles',
+    ACTIVE_PROFILE: 'activeProfile',
 };
 
+// Kept apart for each X account under `account:<handle>:<key>`, like the
+// follow records; settings, the selector pack, the panel and the activity
+// log are shared
+const ACCOUNT_SCOPED_KEYS = [
+    STORAGE_KEYS.FOLLOWED_USERS,
+    STORAGE_KEYS.RATE_LIMIT_STATE,
+    STORAGE_KEYS.RECENT_FOLLOWS,
+    STORAGE_KEYS.BACKOFF_STATE,
+    STORAGE_KEYS.DAILY_STATS,
+    STORAGE_KEYS.DAILY_LIMIT_STATE,
+    STORAGE_KEYS.RUN_STATE,
+    STORAGE_KEYS.FOLLOW_BACK_REPORT,
+    STORAGE_KEYS.DRY_RUN_REPORT,
+    STORAGE_KEYS.ANALYTICS,
+    STORAGE_KEYS.ACTIVE_PROFILE,
+];
+
+export interface FollowRecord {
+    handle: string;
+    displayName: string;
+    followedAt: number;
+    sourceUrl: string;
+    outcome: FollowOutcome;
+    runId: string;
+    // Targeting rules that were switched on when the user was queued
+    rules?: FilterRuleId[];
+    // Where the user was found; missing on records from before lists were read
+    surface?: Surface;
+    badgeType?: BadgeType;
+    // Settings profile of the run that made the follow
+    profile?: { id: string; name: string } | null;
+    // Set by the follow-back audit
+    followsBack?: boolean;
+    auditedAt?: number;
+}
+
 export interface DailyFollowStats {
     date: string;
     count: number;
@@ -45,49 +154,399 @@ export interface DailyLimitState {
     limitReachedAt: number | null;
 }
 
+/**
+ * A rate-limit pause: a full sliding window, or a cooldown after X reported
+ * a limit
+ */
 export interface RateLimitState {
     pauseUntil: number;
-    successSinceLastPause: number;
+    reason: 'window' | 'backoff';
+    // The binding window of a `window` pause
+    windowId?: string;
+}
+
+/**
+ * Limits X reported in a row, reset by the next successful follow
+ */
+export interface BackoffState {
+    level: number;
+    lastHitAt: number;
+}
+
+/**
+ * A queued follow as plain data; resolved to a follow control only when it
+ * comes up, so it survives reloads and navigation.
+ */
+export interface PendingFollow {
+    handle: string;
+    displayName: string;
+    sourceUrl: string;
+    enqueuedAt: number;
+    rules?: FilterRuleId[];
+    surface?: Surface;
+    badgeType?: BadgeType;
+    // Resolve the follow control without clicking it
+    dryRun?: boolean;
+}
+
+/**
+ * A run owned by the background: which tab executes it, what is still
+ * pending and the queue counters, so it can be rebuilt after the service
+ * worker is suspended.
+ */
+export interface RunState {
+    runId: string;
+    // null once the run's tab was closed; the backlog waits for a tab to resume it
+    tabId: number | null;
+    startedAt: number;
+    pending: PendingFollow[];
+    queue: QueueSnapshot;
+    skipped: SkipRecord[];
+    queuedPerThread: Record<string, number>;
+    // Lower-cased handles already run through the targeting rules
+    evaluated: string[];
+    // Lower-cased handles picked in the review list; null follows everyone detected
+    selection?: string[] | null;
+    scope?: RunScope;
+    // Detection session (see utils/route.ts) of the page the run was started on
+    sessionUrl?: string | null;
+    // A thread-scoped run waiting for its tab to come back to the thread
+    routePaused?: boolean;
+    // Waiting for the schedule's next window
+    schedulePaused?: boolean;
+    // Started with the dry-run setting; reported under `dryRunReport`
+    dryRun?: boolean;
+    // Settings profile active when the run started; null without one
+    profile?: { id: string; name: string } | null;
+}
+
+/**
+ * Position (px from the top-left of the viewport) and collapsed state of the
+ * in-page panel
+ */
+export interface PanelState {
+    x: number | null;
+    y: number | null;
+    collapsed: boolean;
+}
+
+/**
+ * Where `key` lives for `account`. Until an account is detected the
+ * unprefixed keys are used; the first account detected takes them over.
+ */
+function accountKey(key: string, account: string | null): string {
+    return account ? `${STORAGE_KEYS.ACCOUNT_PREFIX}${account}:${key}` : key;
+}
+
+/**
+ * `account`, or the active account when left out. A run or an audit passes
+ * the account it was started for, so its reads and writes cannot go to
+ * another account's data after a switch.
+ */
+async function resolveAccount(account?: string | null): Promise<string | null> {
+    return account === undefined ? await getActiveAccount() : account;
+}
+
+/**
+ * Where `key` lives for `account`; the active account's when left out.
+ */
+async function scoped(key: string, account?: string | null): Promise<string> {
+    return accountKey(key, await resolveAccount(account));
 }
 
 /**
- * Add a user to the followed list
+ * `value` if it matches the schema of the key `name`, else undefined. Data
+ * written by an older release or edited by hand must not break a reader.
  */
-export async function markAsFollowed(handle: string): Promise<void> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.FOLLOWED_USERS);
-    const followedArray = result[STORAGE_KEYS.FOLLOWED_USERS] as string[] || [];
-    const followed = new Set<string>(followedArray);
-    followed.add(handle);
+function checked<T>(name: string, value: unknown): T | undefined {
+    if (value === undefined || STORAGE_SCHEMA[name](value)) return value as T | undefined;
+    logger.warn(`[xfollow] Ignoring stored ${name} that does not match its schema`);
+    return undefined;
+}
+
+async function read<T>(key: string, name: string = key): Promise<T | undefined> {
+    const result = await browser.storage.local.get(key);
+    return checked<T>(name, result[key]);
+}
+
+async function readScoped<T>(name: string, account?: string | null): Promise<T | undefined> {
+    return read<T>(await scoped(name, account), name);
+}
+
+function followRecordKey(handle: string, account: string | null): string {
+    return accountKey(`${STORAGE_KEYS.FOLLOW_RECORD_PREFIX}${normalizeHandle(handle)}`, account);
+}
+
+/**
+ * Record a follow. Each record lives under its own key so lookups never
+ * read the whole history.
+ */
+export async function markAsFollowed(record: Omit<FollowRecord, 'followedAt'> & { followedAt?: number }, account?: string | null): Promise<void> {
     await browser.storage.local.set({
-        [STORAGE_KEYS.FOLLOWED_USERS]: Array.from(followed)
+        [followRecordKey(record.handle, await resolveAccount(account))]: { ...record, followedAt: record.followedAt ?? clock.now() }
     });
 }
 
 /**
  * Check if a user has been followed
  */
-export async function isFollowed(handle: string): Promise<boolean> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.FOLLOWED_USERS);
-    const followedArray = result[STORAGE_KEYS.FOLLOWED_USERS] as string[] || [];
-    const followed = new Set<string>(followedArray);
-    return followed.has(handle);
+export async function isFollowed(handle: string, account?: string | null): Promise<boolean> {
+    return (await getFollowRecord(handle, account)) !== null;
+}
+
+export async function getFollowRecord(handle: string, account?: string | null): Promise<FollowRecord | null> {
+    return (await read<FollowRecord>(followRecordKey(handle, await resolveAccount(account)), STORAGE_KEYS.FOLLOW_RECORD_PREFIX)) || null;
+}
+
+async function getFollowRecordEntries(account?: string | null): Promise<[string, FollowRecord][]> {
+    const prefix = await scoped(STORAGE_KEYS.FOLLOW_RECORD_PREFIX, account);
+    const all = await browser.storage.local.get(null);
+    return Object.entries(all)
+        .filter(([key, record]) => key.startsWith(prefix) && checked(STORAGE_KEYS.FOLLOW_RECORD_PREFIX, record))
+        .map(([key, record]) => [key, record as FollowRecord]);
+}
+
+/**
+ * All follow records, newest first
+ */
+export async function getFollowHistory(account?: string | null): Promise<FollowRecord[]> {
+    return (await getFollowRecordEntries(account))
+        .map(([, record]) => record)
+        .sort((a, b) => b.followedAt - a.followedAt);
+}
+
+/**
+ * Store the follow-back audit result on an existing follow record
+ */
+export async function setFollowBack(handle: string, followsBack: boolean, auditedAt = clock.now(), account?: string | null): Promise<void> {
+    const owner = await resolveAccount(account);
+    const record = await getFollowRecord(handle, owner);
+    if (!record) return;
+    await browser.storage.local.set({
+        [followRecordKey(handle, owner)]: { ...record, followsBack, auditedAt }
+    });
+}
+
+/**
+ * Write many follow records at once (used by backup import)
+ */
+export async function saveFollowRecords(records: FollowRecord[]): Promise<void> {
+    const account = await getActiveAccount();
+    const entries: Record<string, FollowRecord> = {};
+    for (const record of records) {
+        entries[followRecordKey(record.handle, account)] = record;
+    }
+    await browser.storage.local.set(entries);
 }
 
 /**
  * Reset the followed users history
  */
 export async function resetFollowedHistory(): Promise<void> {
+    const keys = (await getFollowRecordEntries()).map(([key]) => key);
+    await browser.storage.local.remove([...keys, await scoped(STORAGE_KEYS.FOLLOWED_USERS)]);
+}
+
+/**
+ * Convert the legacy `followedUsers` handle array into follow records.
+ * Existing records win over migrated ones; safe to run more than once.
+ */
+export async function migrateFollowedUsers(): Promise<number> {
+    const account = await getActiveAccount();
+    const legacyKey = accountKey(STORAGE_KEYS.FOLLOWED_USERS, account);
+    const result = await browser.storage.local.get(legacyKey);
+    const legacy = result[legacyKey];
+    if (!Array.isArray(legacy)) return 0;
+
+    const keys = legacy.filter((h): h is string => typeof h === 'string').map(h => followRecordKey(h, account));
+    const existing = await browser.storage.local.get(keys);
+    const migratedAt = clock.now();
+    const records: Record<string, FollowRecord> = {};
+    for (const handle of legacy) {
+        if (typeof handle !== 'string') continue;
+        const key = followRecordKey(handle, account);
+        if (existing[key] || records[key]) continue;
+        records[key] = {
+            handle,
+            displayName: '',
+            followedAt: migratedAt,
+            sourceUrl: '',
+            outcome: 'followed',
+            runId: 'legacy',
+        };
+    }
+
+    await browser.storage.local.set(records);
+    await browser.storage.local.remove(legacyKey);
+    return Object.keys(records).length;
+}
+
+/**
+ * Settings of releases before the sliding windows had a fixed pause after
+ * `rateLimitThreshold` follows; its length becomes the first backoff
+ * cooldown. Returns whether anything changed.
+ */
+export async function migrateLegacySettings(): Promise<boolean> {
+    const result = await browser.storage.local.get(STORAGE_KEYS.SETTINGS);
+    const stored = result[STORAGE_KEYS.SETTINGS];
+    if (!stored || typeof stored !== 'object' || !('rateLimitDuration' in stored || 'rateLimitThreshold' in stored)) {
+        return false;
+    }
+
+    const settings = { ...stored } as Record<string, unknown>;
+    const duration = settings.rateLimitDuration;
+    if (settings.backoffBase === undefined && typeof duration === 'number' && duration > 0) {
+        settings.backoffBase = duration;
+    }
+    delete settings.rateLimitDuration;
+    delete settings.rateLimitThreshold;
+    await browser.storage.local.set({ [STORAGE_KEYS.SETTINGS]: settings });
+    return true;
+}
+
+/**
+ * The X account whose history, stats and limits are in use; null until the
+ * content script first detects who is logged in
+ */
+export async function getActiveAccount(): Promise<string | null> {
+    return (await read<string>(STORAGE_KEYS.ACTIVE_ACCOUNT)) || null;
+}
+
+/**
+ * Every account seen so far, in the order they were first detected
+ */
+export async function getAccounts(): Promise<string[]> {
+    return (await read<string[]>(STORAGE_KEYS.ACCOUNTS)) || [];
+}
+
+/**
+ * Make `handle` the active account. The first account ever set takes over
+ * the data stored before accounts were told apart. Returns false when it
+ * already was the active one.
+ */
+export async function setActiveAccount(handle: string): Promise<boolean> {
+    const account = normalizeHandle(handle);
+    if (account === await getActiveAccount()) return false;
+
+    const accounts = await getAccounts();
+    if (accounts.length === 0) {
+        const all = await browser.storage.local.get(null);
+        const unscoped = Object.keys(all)
+            .filter(key => ACCOUNT_SCOPED_KEYS.includes(key) || key.startsWith(STORAGE_KEYS.FOLLOW_RECORD_PREFIX));
+        await browser.storage.local.set(Object.fromEntries(unscoped.map(key => [accountKey(key, account), all[key]])));
+        await browser.storage.local.remove(unscoped);
+    }
+
     await browser.storage.local.set({
-        [STORAGE_KEYS.FOLLOWED_USERS]: []
+        [STORAGE_KEYS.ACTIVE_ACCOUNT]: account,
+        [STORAGE_KEYS.ACCOUNTS]: accounts.includes(account) ? accounts : [...accounts, account],
     });
+    return true;
 }
 
 /**
- * Get current settings
+ * One account's numbers, as shown by the popup's account switcher
+ */
+export interface AccountSummary {
+    handle: string;
+    active: boolean;
+    today: number;
+    followed: number;
+    // End of a rate-limit pause still running
+    pausedUntil: number | null;
+    dailyLimitReached: boolean;
+}
+
+export async function getAccountSummaries(): Promise<AccountSummary[]> {
+    const [all, active, today] = await Promise.all([
+        browser.storage.local.get(null),
+        getActiveAccount(),
+        getTodayDateString(),
+    ]);
+    const now = clock.now();
+    return (await getAccounts()).map(handle => {
+        const stored = <T>(key: string) => checked<T>(key, all[accountKey(key, handle)]);
+        const stats = stored<DailyStatsHistory>(STORAGE_KEYS.DAILY_STATS);
+        const rateLimit = stored<RateLimitState>(STORAGE_KEYS.RATE_LIMIT_STATE);
+        const dailyLimit = stored<DailyLimitState>(STORAGE_KEYS.DAILY_LIMIT_STATE);
+        const recordPrefix = accountKey(STORAGE_KEYS.FOLLOW_RECORD_PREFIX, handle);
+        const dayCounts = stats?.today.date === today;
+        return {
+            handle,
+            active: handle === active,
+            today: dayCounts ? stats.today.count : 0,
+            followed: Object.keys(all).filter(key => key.startsWith(recordPrefix)).length,
+            pausedUntil: rateLimit && rateLimit.pauseUntil > now ? rateLimit.pauseUntil : null,
+            dailyLimitReached: dayCounts && !!dailyLimit?.isLimited,
+        };
+    });
+}
+
+function withDefaults(saved: Partial<Settings>): Settings {
+    return {
+        ...DEFAULT_SETTINGS,
+        ...saved,
+        filterRules: { ...DEFAULT_FILTER_RULES, ...(saved.filterRules || {}) },
+        schedule: { ...DEFAULT_SCHEDULE, ...(saved.schedule || {}) }
+    };
+}
+
+/**
+ * Get current settings. Stored fields that fail validation fall back to
+ * their defaults; the second pass catches pairs such as the delays that only
+ * clash with a default filled in.
  */
 export async function getSettings(): Promise<Settings> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.SETTINGS);
-    return { ...DEFAULT_SETTINGS, ...(result[STORAGE_KEYS.SETTINGS] || {}) };
+    const saved = await read<Partial<Settings>>(STORAGE_KEYS.SETTINGS);
+    return withDefaults(sanitizeSettings(withDefaults(sanitizeSettings(saved))));
+}
+
+/**
+ * Settings that fail validation, with the problem of each field
+ */
+export class InvalidSettingsError extends Error {
+    constructor(public errors: FieldError[]) {
+        super(`Invalid settings: ${errors.map(e => formatFieldError(e)).join(', ')}`);
+        this.name = 'InvalidSettingsError';
+    }
+}
+
+function assertValidSettings(settings: Partial<Settings>): void {
+    const errors = validateSettings(settings);
+    if (errors.length > 0) throw new InvalidSettingsError(errors);
+}
+
+export async function getDayBoundary(): Promise<DayBoundary> {
+    const { dayResetHour, timeZone } = await getSettings();
+    return { resetHour: dayResetHour, timeZone };
+}
+
+/**
+ * Calls `callback` when an account is added or becomes active
+ */
+export function watchAccounts(callback: () => void): void {
+    browser.storage.onChanged.addListener((changes, area) => {
+        if (area !== 'local') return;
+        if (STORAGE_KEYS.ACTIVE_ACCOUNT in changes || STORAGE_KEYS.ACCOUNTS in changes) callback();
+    });
+}
+
+export function watchSettings(callback: (settings: Settings) => void): void {
+    browser.storage.onChanged.addListener((changes, area) => {
+        if (area !== 'local' || !(STORAGE_KEYS.SETTINGS in changes)) return;
+        getSettings().then(callback);
+    });
+}
+
+/**
+ * Overwrite all settings (missing fields fall back to defaults on read). The
+ * active profile is left alone; use `updateSettings` to keep it in step.
+ */
+export async function replaceSettings(settings: Partial<Settings>): Promise<void> {
+    assertValidSettings(withDefaults(settings));
+    await browser.storage.local.set({
+        [STORAGE_KEYS.SETTINGS]: settings
+    });
 }
 
 /**
@@ -95,45 +554,154 @@ export async function getSettings(): Promise<Settings> {
  */
 export async function updateSettings(newSettings: Partial<Settings>): Promise<void> {
     const current = await getSettings();
+    const settings = { ...current, ...newSettings };
+    assertValidSettings(settings);
     await browser.storage.local.set({
-        [STORAGE_KEYS.SETTINGS]: { ...current, ...newSettings }
+        [STORAGE_KEYS.SETTINGS]: settings
     });
+
+    // The active profile keeps the edits
+    const profile = await getActiveProfile();
+    if (profile) await saveProfile({ ...profile, settings });
 }
 
-export async function getRateLimitState(): Promise<RateLimitState | null> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.RATE_LIMIT_STATE);
-    const state = result[STORAGE_KEYS.RATE_LIMIT_STATE] as RateLimitState | undefined;
+/**
+ * A named set of settings, targeting rules included
+ */
+export interface SettingsProfile {
+    id: string;
+    name: string;
+    settings: Settings;
+}
+
+/**
+ * Saved profiles, in the order they were created
+ */
+export async function getProfiles(): Promise<SettingsProfile[]> {
+    const profiles = (await read<SettingsProfile[]>(STORAGE_KEYS.PROFILES)) || [];
+    return profiles.map(p => ({ ...p, settings: withDefaults(sanitizeSettings(withDefaults(sanitizeSettings(p.settings)))) }));
+}
+
+/**
+ * Adds the profile, or replaces the one with its id
+ */
+export async function saveProfile(profile: SettingsProfile): Promise<void> {
+    assertValidSettings(profile.settings);
+    const profiles = await getProfiles();
+    const index = profiles.findIndex(p => p.id === profile.id);
+    const next = index === -1 ? [...profiles, profile] : profiles.map(p => p.id === profile.id ? profile : p);
+    await browser.storage.local.set({
+        [STORAGE_KEYS.PROFILES]: next
+    });
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+    const profiles = await getProfiles();
+    await browser.storage.local.set({
+        [STORAGE_KEYS.PROFILES]: profiles.filter(p => p.id !== id)
+    });
+    if (await getActiveProfileId() === id) await setActiveProfileId(null);
+}
+
+/**
+ * The profile the active account used last; null when its settings were
+ * never taken from a profile
+ */
+export async function getActiveProfileId(): Promise<string | null> {
+    return (await readScoped<string>(STORAGE_KEYS.ACTIVE_PROFILE)) || null;
+}
+
+export async function setActiveProfileId(id: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.ACTIVE_PROFILE);
+    if (id === null) {
+        await browser.storage.local.remove(key);
+    } else {
+        await browser.storage.local.set({ [key]: id });
+    }
+}
+
+export async function getActiveProfile(): Promise<SettingsProfile | null> {
+    const id = await getActiveProfileId();
+    if (!id) return null;
+    return (await getProfiles()).find(p => p.id === id) || null;
+}
+
+/**
+ * Makes a profile's settings the current ones and remembers it for the
+ * active account.
+ */
+export async function activateProfile(id: string): Promise<SettingsProfile> {
+    const profile = (await getProfiles()).find(p => p.id === id);
+    if (!profile) throw new Error(`Unknown profile ${id}`);
+    await replaceSettings(profile.settings);
+    await setActiveProfileId(id);
+    return profile;
+}
+
+export async function getRateLimitState(account?: string | null): Promise<RateLimitState | null> {
+    const state = await readScoped<RateLimitState>(STORAGE_KEYS.RATE_LIMIT_STATE, account);
     return state || null;
 }
 
-export async function setRateLimitState(state: RateLimitState): Promise<void> {
+export async function setRateLimitState(state: RateLimitState, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.RATE_LIMIT_STATE, account);
     await browser.storage.local.set({
-        [STORAGE_KEYS.RATE_LIMIT_STATE]: state
+        [key]: state
     });
 }
 
-export async function clearRateLimitState(): Promise<void> {
-    await browser.storage.local.remove(STORAGE_KEYS.RATE_LIMIT_STATE);
+export async function clearRateLimitState(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.RATE_LIMIT_STATE, account);
+    await browser.storage.local.remove(key);
 }
 
 export async function isRateLimited(): Promise<boolean> {
     const state = await getRateLimitState();
     if (!state) return false;
-    return Date.now() < state.pauseUntil;
+    return clock.now() < state.pauseUntil;
 }
 
-function getTodayDateString(): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+/**
+ * Times of the successful follows still inside the longest rate window
+ */
+export async function getRecentFollows(account?: string | null): Promise<number[]> {
+    return (await readScoped<number[]>(STORAGE_KEYS.RECENT_FOLLOWS, account)) || [];
 }
 
-export async function getDailyStats(): Promise<DailyStatsHistory> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.DAILY_STATS);
-    const savedStats = result[STORAGE_KEYS.DAILY_STATS] as DailyStatsHistory | undefined;
-    const today = getTodayDateString();
+export async function setRecentFollows(timestamps: number[], account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.RECENT_FOLLOWS, account);
+    await browser.storage.local.set({
+        [key]: timestamps
+    });
+}
+
+export async function getBackoffState(account?: string | null): Promise<BackoffState | null> {
+    return (await readScoped<BackoffState>(STORAGE_KEYS.BACKOFF_STATE, account)) || null;
+}
+
+export async function setBackoffState(state: BackoffState, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.BACKOFF_STATE, account);
+    await browser.storage.local.set({
+        [key]: state
+    });
+}
+
+export async function clearBackoffState(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.BACKOFF_STATE, account);
+    await browser.storage.local.remove(key);
+}
+
+/**
+ * `YYYY-MM-DD` key of the current day under the configured day boundary,
+ * the key used by the daily stats
+ */
+async function getTodayDateString(): Promise<string> {
+    return dayKey(clock.now(), await getDayBoundary());
+}
+
+export async function getDailyStats(account?: string | null): Promise<DailyStatsHistory> {
+    const savedStats = await readScoped<DailyStatsHistory>(STORAGE_KEYS.DAILY_STATS, account);
+    const today = await getTodayDateString();
     
     if (!savedStats) {
         return {
@@ -148,89 +716,248 @@ export async function getDailyStats(): Promise<DailyStatsHistory> {
     }
     
     // It's a new day, move today to history
-    const newHistory = [...savedStats.history, savedStats.today].slice(-30); // Keep last 30 days
+    const { statsRetentionDays } = await getSettings();
+    const newHistory = [...savedStats.history, savedStats.today].slice(-statsRetentionDays);
     return {
         today: { date: today, count: 0 },
         history: newHistory
     };
 }
 
-export async function incrementDailyFollowCount(): Promise<void> {
-    const stats = await getDailyStats();
-    const today = getTodayDateString();
+export async function setDailyStats(stats: DailyStatsHistory, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_STATS, account);
+    await browser.storage.local.set({
+        [key]: stats
+    });
+}
+
+export async function incrementDailyFollowCount(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_STATS, account);
+    const stats = await getDailyStats(account);
+    const today = await getTodayDateString();
     
     // If it's a new day, move today to history
     if (stats.today.date !== today) {
-        const newHistory = [...stats.history, stats.today].slice(-30);
-        stats.history = newHistory;
+        const { statsRetentionDays } = await getSettings();
+        stats.history = [...stats.history, stats.today].slice(-statsRetentionDays);
         stats.today = { date: today, count: 0 };
     }
     
     stats.today.count++;
     
     await browser.storage.local.set({
-        [STORAGE_KEYS.DAILY_STATS]: stats
+        [key]: stats
     });
 }
 
 export async function isDailyLimitReached(limit: number): Promise<boolean> {
     const stats = await getDailyStats();
-    const today = getTodayDateString();
+    const today = await getTodayDateString();
     
     // Check if saved today matches current today
     const currentCount = stats.today.date === today ? stats.today.count : 0;
     return currentCount >= limit;
 }
 
-export async function getDailyLimitState(): Promise<DailyLimitState | null> {
-    const result = await browser.storage.local.get(STORAGE_KEYS.DAILY_LIMIT_STATE);
-    const state = result[STORAGE_KEYS.DAILY_LIMIT_STATE] as DailyLimitState | undefined;
+export async function getDailyLimitState(account?: string | null): Promise<DailyLimitState | null> {
+    const state = await readScoped<DailyLimitState>(STORAGE_KEYS.DAILY_LIMIT_STATE, account);
     return state || null;
 }
 
-export async function setDailyLimitState(state: DailyLimitState): Promise<void> {
+export async function setDailyLimitState(state: DailyLimitState, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_LIMIT_STATE, account);
     await browser.storage.local.set({
-        [STORAGE_KEYS.DAILY_LIMIT_STATE]: state
+        [key]: state
     });
 }
 
-export async function clearDailyLimitState(): Promise<void> {
-    await browser.storage.local.remove(STORAGE_KEYS.DAILY_LIMIT_STATE);
+export async function clearDailyLimitState(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_LIMIT_STATE, account);
+    await browser.storage.local.remove(key);
 }
 
-export async function checkAndResetDailyStats(): Promise<void> {
-    const stats = await getDailyStats();
-    const today = getTodayDateString();
+export async function checkAndResetDailyStats(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_STATS, account);
+    // Compare against the stored record; getDailyStats() already rolls over
+    const savedStats = await read<DailyStatsHistory>(key, STORAGE_KEYS.DAILY_STATS);
+    const today = await getTodayDateString();
     
     // If saved today doesn't match current today, we need to reset
-    if (stats.today.date !== today) {
-        const newHistory = [...stats.history, stats.today].slice(-30);
-        const newStats = {
-            today: { date: today, count: 0 },
-            history: newHistory
-        };
+    if (savedStats && savedStats.today.date !== today) {
         await browser.storage.local.set({
-            [STORAGE_KEYS.DAILY_STATS]: newStats
+            [key]: await getDailyStats(account)
         });
-        await clearDailyLimitState();
+        await clearDailyLimitState(account);
     }
 }
 
-export async function getTimeUntilMidnight(): Promise<number> {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    return tomorrow.getTime() - now.getTime();
+export async function getFollowBackReport(account?: string | null): Promise<FollowBackReport | null> {
+    return (await readScoped<FollowBackReport>(STORAGE_KEYS.FOLLOW_BACK_REPORT, account)) || null;
+}
+
+export async function setFollowBackReport(report: FollowBackReport, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.FOLLOW_BACK_REPORT, account);
+    await browser.storage.local.set({
+        [key]: report
+    });
+}
+
+export async function getTimeUntilDayReset(): Promise<number> {
+    const now = clock.now();
+    return nextDayStart(now, await getDayBoundary()) - now;
 }
 
-export async function resetDailyStats(): Promise<void> {
-    const today = getTodayDateString();
+export async function resetDailyStats(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DAILY_STATS, account);
+    const today = await getTodayDateString();
     await browser.storage.local.set({
-        [STORAGE_KEYS.DAILY_STATS]: {
+        [key]: {
             today: { date: today, count: 0 },
             history: []
         }
     });
-    await clearDailyLimitState();
+    await clearDailyLimitState(account);
+}
+
+/**
+ * Get the selector pack to use. A stored pack older than the built-in one is
+ * ignored so that a new release's selectors take precedence.
+ */
+export async function getSelectorPack(): Promise<SelectorPack> {
+    const result = await browser.storage.local.get(STORAGE_KEYS.SELECTOR_PACK);
+    const stored = result[STORAGE_KEYS.SELECTOR_PACK];
+    if (!isValidSelectorPack(stored) || stored.version < DEFAULT_SELECTOR_PACK.version) {
+        return DEFAULT_SELECTOR_PACK;
+    }
+    return stored;
+}
+
+export async function setSelectorPack(pack: SelectorPack): Promise<void> {
+    if (!isValidSelectorPack(pack)) {
+        throw new Error('Invalid selector pack');
+    }
+    await browser.storage.local.set({
+        [STORAGE_KEYS.SELECTOR_PACK]: pack
+    });
+}
+
+export async function resetSelectorPack(): Promise<void> {
+    await browser.storage.local.remove(STORAGE_KEYS.SELECTOR_PACK);
+}
+
+/**
+ * Call `callback` whenever the stored selector pack changes.
+ */
+export function watchSelectorPack(callback: (pack: SelectorPack) => void): void {
+    browser.storage.onChanged.addListener((changes, area) => {
+        if (area !== 'local' || !(STORAGE_KEYS.SELECTOR_PACK in changes)) return;
+        getSelectorPack().then(callback);
+    });
+}
+
+export async function getRunState(account?: string | null): Promise<RunState | null> {
+    return (await readScoped<RunState>(STORAGE_KEYS.RUN_STATE, account)) || null;
+}
+
+export async function setRunState(state: RunState, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.RUN_STATE, account);
+    await browser.storage.local.set({
+        [key]: state
+    });
+}
+
+export async function clearRunState(account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.RUN_STATE, account);
+    await browser.storage.local.remove(key);
+}
+
+export async function getPanelState(): Promise<PanelState> {
+    return (await read<PanelState>(STORAGE_KEYS.PANEL_STATE)) || { x: null, y: null, collapsed: false };
+}
+
+export async function setPanelState(state: PanelState): Promise<void> {
+    await browser.storage.local.set({
+        [STORAGE_KEYS.PANEL_STATE]: state
+    });
+}
+
+/**
+ * The activity log's ring buffer, oldest first
+ */
+export async function getEventLog(): Promise<ActivityEvent[]> {
+    return (await read<ActivityEvent[]>(STORAGE_KEYS.EVENT_LOG)) || [];
+}
+
+export async function setEventLog(events: ActivityEvent[]): Promise<void> {
+    await browser.storage.local.set({
+        [STORAGE_KEYS.EVENT_LOG]: events
+    });
+}
+
+/**
+ * The report of the latest dry run
+ */
+export async function getDryRunReport(account?: string | null): Promise<DryRunReport | null> {
+    return (await readScoped<DryRunReport>(STORAGE_KEYS.DRY_RUN_REPORT, account)) || null;
+}
+
+export async function setDryRunReport(report: DryRunReport, account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.DRY_RUN_REPORT, account);
+    await browser.storage.local.set({
+        [key]: report
+    });
+}
+
+/**
+ * An account's analytics days, the active one's when left out; oldest
+ * first
+ */
+export async function getAnalytics(account?: string | null): Promise<AnalyticsDay[]> {
+    return (await readScoped<AnalyticsDay[]>(STORAGE_KEYS.ANALYTICS, account)) || [];
+}
+
+export async function setAnalytics(days: AnalyticsDay[], account?: string | null): Promise<void> {
+    const key = await scoped(STORAGE_KEYS.ANALYTICS, account);
+    await browser.storage.local.set({
+        [key]: days
+    });
+}
+
+/**
+ * Layout version of the stored data; 0 before the first migration ran
+ */
+export async function getSchemaVersion(): Promise<number> {
+    return (await read<number>(STORAGE_KEYS.SCHEMA_VERSION)) ?? 0;
+}
+
+export async function setSchemaVersion(version: number): Promise<void> {
+    await browser.storage.local.set({
+        [STORAGE_KEYS.SCHEMA_VERSION]: version
+    });
+}
+
+/**
+ * Removes stored values that fail their key's schema, in every account, and
+ * the invalid fields of the stored settings. Returns the keys changed.
+ */
+export async function repairStorage(): Promise<string[]> {
+    const all = await browser.storage.local.get(null);
+    const invalid = Object.entries(all).filter(([key, value]) => {
+        const unscoped = key.startsWith(STORAGE_KEYS.ACCOUNT_PREFIX)
+            ? key.slice(key.indexOf(':', STORAGE_KEYS.ACCOUNT_PREFIX.length) + 1)
+            : key;
+        const name = unscoped.startsWith(STORAGE_KEYS.FOLLOW_RECORD_PREFIX) ? STORAGE_KEYS.FOLLOW_RECORD_PREFIX : unscoped;
+        // Keys of no schema are left alone
+        return name in STORAGE_SCHEMA && !STORAGE_SCHEMA[name](value);
+    }).map(([key]) => key);
+    await browser.storage.local.remove(invalid);
+
+    const settings = all[STORAGE_KEYS.SETTINGS];
+    if (settings === undefined || invalid.includes(STORAGE_KEYS.SETTINGS) || validateSettings(settings).length === 0) {
+        return invalid;
+    }
+    await browser.storage.local.set({
+        [STORAGE_KEYS.SETTINGS]: sanitizeSettings(withDefaults(sanitizeSettings(settings)))
+    });
+    return [...invalid, STORAGE_KEYS.SETTINGS];
 }
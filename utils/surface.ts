@@ -0,0 +1,50 @@
+/**
+ * Where on X a user was detected. Posts (threads and timelines) only reach
+ * the follow control through a hover card; user lists render it inline in
+ * every cell.
+ */
+
+export type PostSurface = "thread" | "timeline";
+
+export type ListSurface =
+  | "followers"
+  | "following"
+  | "verified_followers"
+  | "likes"
+  | "reposts"
+  | "search_people";
+
+export type Surface = PostSurface | ListSurface;
+
+export const LIST_SURFACES: ListSurface[] = [
+  "followers",
+  "following",
+  "verified_followers",
+  "likes",
+  "reposts",
+  "search_people",
+];
+
+export function isListSurface(surface: Surface | undefined): surface is ListSurface {
+  return LIST_SURFACES.includes(surface as ListSurface);
+}
+
+export function isSurface(value: unknown): value is Surface {
+  return value === "thread" || value === "timeline" || isListSurface(value as Surface);
+}
+
+/**
+ * The user list a page shows, read from its URL; null on pages without one.
+ */
+export function getListSurface(pathname: string, search: string = ""): ListSurface | null {
+  if (pathname === "/search") {
+    return new URLSearchParams(search).get("f") === "user" ? "search_people" : null;
+  }
+
+  const engagement = /^\/[^/]+\/status\/\d+\/(likes|retweets|reposts)\/?$/.exec(pathname);
+  if (engagement) return engagement[1] === "likes" ? "likes" : "reposts";
+
+  const list = /^\/[^/]+\/(followers|followers_you_follow|following|verified_followers)\/?$/.exec(pathname);
+  if (!list) return null;
+  return list[1] === "followers_you_follow" ? "followers" : (list[1] as ListSurface);
+}
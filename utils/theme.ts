@@ -0,0 +1,38 @@
+/**
+ * X's display theme, read from the page background so injected UI can match.
+ */
+export type XTheme = "light" | "dim" | "dark";
+
+function parseRgb(color: string): [number, number, number] | null {
+  const match = /rgba?\((\d+),\s*(\d+),\s*(\d+)/.exec(color);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * X paints the body white (light), #15202b (dim) or black (dark).
+ */
+export function readXTheme(doc: Document = document): XTheme {
+  const rgb = parseRgb(doc.body?.style.backgroundColor || "");
+  if (!rgb) {
+    return window.matchMedia?.("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+  }
+  const [r, g, b] = rgb;
+  if (r + g + b > 382) return "light";
+  return b > r + 10 ? "dim" : "dark";
+}
+
+/**
+ * Calls `callback` whenever the user switches X's theme.
+ */
+export function watchXTheme(callback: (theme: XTheme) => void, doc: Document = document) {
+  let current = readXTheme(doc);
+  const observer = new MutationObserver(() => {
+    const next = readXTheme(doc);
+    if (next !== current) {
+      current = next;
+      callback(next);
+    }
+  });
+  observer.observe(doc.body, { attributes: true, attributeFilter: ["style"] });
+  return observer;
+}
@@ -0,0 +1,104 @@
+/**
+ * Toolbar badge: the number of users detected in a tab, or the live progress
+ * of the run in the run's tab, coloured by the run's state.
+ */
+import { browser } from 'wxt/browser';
+import type { FollowOutcome, QueueStatus } from './followQueue';
+
+export type BadgeState = 'detected' | 'running' | 'paused' | 'rate_limited' | 'daily_limit' | 'error';
+
+export const BADGE_COLORS: Record<BadgeState, string> = {
+  detected: '#1d9bf0',
+  running: '#00ba7c',
+  paused: '#71767b',
+  rate_limited: '#ffad1f',
+  daily_limit: '#794bc4',
+  error: '#f4212e',
+};
+
+export interface RunProgress {
+  status: QueueStatus;
+  processed: number;
+  total: number;
+  lastOutcome: FollowOutcome | null;
+}
+
+export interface ToolbarBadge {
+  text: string;
+  state: BadgeState;
+}
+
+/**
+ * `processed/total` while it fits the badge's four characters, a percentage
+ * after that.
+ */
+export function progressText(processed: number, total: number): string {
+  const text = `${processed}/${total}`;
+  if (text.length <= 4) return text;
+  return `${Math.floor((processed / Math.max(total, 1)) * 100)}%`;
+}
+
+/**
+ * The run's badge; null once the run is over.
+ */
+export function runBadge(run: RunProgress): ToolbarBadge | null {
+  if (run.status === 'idle' || run.status === 'stopped') return null;
+  const state: BadgeState =
+    run.status === 'rate_limited' ? 'rate_limited'
+      : run.status === 'daily_limit_reached' ? 'daily_limit'
+        : run.lastOutcome === 'error' ? 'error'
+          : run.status === 'paused' ? 'paused'
+            : 'running';
+  return { text: progressText(run.processed, run.total), state };
+}
+
+export function detectedBadge(count: number): ToolbarBadge {
+  return { text: count === 0 ? '' : count > 999 ? '999+' : String(count), state: 'detected' };
+}
+
+/**
+ * Keeps the badge of every tab up to date. Detected counts are added up from
+ * the candidates each tab reports and start over on every page.
+ */
+export class ToolbarBadges {
+  private detected = new Map<number, number>();
+  private runTabId: number | null = null;
+  private run: ToolbarBadge | null = null;
+
+  public addDetected(tabId: number, count: number) {
+    this.detected.set(tabId, (this.detected.get(tabId) || 0) + count);
+    this.render(tabId);
+  }
+
+  public resetTab(tabId: number) {
+    this.detected.delete(tabId);
+    this.render(tabId);
+  }
+
+  public removeTab(tabId: number) {
+    this.detected.delete(tabId);
+  }
+
+  public setRun(tabId: number | null, progress: RunProgress) {
+    const previousTabId = this.runTabId;
+    this.runTabId = tabId;
+    this.run = runBadge(progress);
+    if (previousTabId !== null && previousTabId !== tabId) this.render(previousTabId);
+    if (tabId !== null) this.render(tabId);
+  }
+
+  public badgeFor(tabId: number): ToolbarBadge {
+    if (tabId === this.runTabId && this.run) return this.run;
+    return detectedBadge(this.detected.get(tabId) || 0);
+  }
+
+  private async render(tabId: number) {
+    const badge = this.badgeFor(tabId);
+    try {
+      await browser.action.setBadgeText({ tabId, text: badge.text });
+      await browser.action.setBadgeBackgroundColor({ tabId, color: BADGE_COLORS[badge.state] });
+    } catch (e) {
+      // The tab was closed meanwhile
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import vue from '@vitejs/plugin-vue';
+import { defineConfig } from 'vitest/config';
+import { WxtVitest } from 'wxt/testing/vitest-plugin';
+
+// See https://wxt.dev/guide/essentials/unit-testing.html
+export default defineConfig({
+  // Components are compiled for the popup tests
+  plugins: [WxtVitest(), vue()],
+  test: {
+    environment: 'happy-dom',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    restoreMocks: true,
+  },
+});